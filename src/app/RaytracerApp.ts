@@ -1,4 +1,20 @@
 import { Raytracer } from '../core/Raytracer';
+import { RenderCancelledError } from '../core/RenderCancelledError';
+import { encodeHDR, encodePFM, encodePNG16, encodeZip } from '../exporters/imageEncoders';
+import { toneMapFloat } from '../core/toneMapping';
+import { displayPass } from '../core/renderPasses';
+import type { FrameRange } from '../core/animation';
+import type { RenderMode, RenderPass, AntialiasingSettings, ToneMappingSettings, ExportFormat, SequenceFormat } from '../types/scene.types';
+
+export interface SequenceOptions {
+    start?: number;             // first frame (default: start of the scene's animation)
+    end?: number;               // last frame, included (default: end of the animation)
+    format?: SequenceFormat;    // default: zip
+    name?: string;              // file name prefix; frames are saved as <name>_0001.png
+    onProgress?: (frame: number, progress: number) => void;     // frame being rendered, overall progress in %
+    signal?: AbortSignal;
+}
+
 
 export class RaytracerApp {
     private raytracer: Raytracer;
@@ -18,7 +34,7 @@ export class RaytracerApp {
     async loadScene(sceneSource: string): Promise<void> {
         try {
             if (sceneSource.trim().startsWith('{')) {
-                this.raytracer.loadScene(sceneSource);
+                await this.raytracer.loadScene(sceneSource);
             } else {
                 await this.raytracer.loadSceneFromFile(sceneSource);
             }
@@ -29,17 +45,65 @@ export class RaytracerApp {
         }
     }
 
-    async render(onProgress?: (progress: number) => void): Promise<void> {
+    async render(onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<void> {
         try {
             console.log('Starting render...');
-            await this.raytracer.render(onProgress);
+            await this.raytracer.render(onProgress, signal);
             console.log('Render complete');
         } catch (error) {
-            console.error('Error during rendering:', error);
+            if (error instanceof RenderCancelledError) {
+                console.log('Render cancelled');
+            } else {
+                console.error('Error during rendering:', error);
+            }
             throw error;
         }
     }
 
+    getFrameRange(): FrameRange | null {
+        return this.raytracer.getFrameRange();
+    }
+
+    async setFrame(frame: number): Promise<void> {
+        await this.raytracer.setFrame(frame);
+    }
+
+    /**
+     * Renders every frame from start to end with the current settings and
+     * saves the canvas of each as PNG, either downloaded one by one or
+     * collected in a ZIP archive. The scene stays at the last rendered frame.
+     */
+    async renderFrames(options: SequenceOptions = {}): Promise<void> {
+        const range = this.raytracer.getFrameRange() ?? { start: this.raytracer.getFrame(), end: this.raytracer.getFrame() };
+        const start = options.start ?? range.start;
+        const end = options.end ?? range.end;
+        const name = options.name ?? 'frame';
+        if (!Number.isInteger(start) || !Number.isInteger(end) || end < start) {
+            throw new Error(`Invalid frame range ${start}-${end}`);
+        }
+
+        const count = end - start + 1;
+        const files: { name: string; data: Uint8Array }[] = [];
+
+        for (let frame = start; frame <= end; frame++) {
+            await this.raytracer.setFrame(frame);
+            await this.render((progress) => {
+                options.onProgress?.(frame, ((frame - start) * 100 + progress) / count);
+            }, options.signal);
+
+            const file = { name: `${name}_${String(frame).padStart(4, '0')}.png`, data: await this.canvasPNG() };
+            if (options.format === 'png') {
+                this.download(new Blob([file.data.buffer as ArrayBuffer], { type: 'image/png' }), file.name);
+            } else {
+                files.push(file);
+            }
+        }
+
+        if (options.format !== 'png') {
+            this.download(new Blob([encodeZip(files).buffer as ArrayBuffer], { type: 'application/zip' }), `${name}.zip`);
+        }
+    }
+
     setMaxDepth(depth: number): void {
         this.raytracer.setMaxDepth(depth);
     }
@@ -48,29 +112,93 @@ export class RaytracerApp {
         this.raytracer.setUseWorkers(useWorkers);
     }
 
+    setRenderMode(mode: RenderMode): void {
+        this.raytracer.setRenderMode(mode);
+    }
+
+    setRenderPass(pass: RenderPass): void {
+        this.raytracer.setRenderPass(pass);
+    }
+
+    setMaxSamples(samples: number): void {
+        this.raytracer.setMaxSamples(samples);
+    }
+
+    setSamplesPerPixel(samples: number): void {
+        this.raytracer.setSamplesPerPixel(samples);
+    }
+
+    setAntialiasing(settings: Partial<AntialiasingSettings>): void {
+        this.raytracer.setAntialiasing(settings);
+    }
+
+    setToneMapping(settings: Partial<ToneMappingSettings>): void {
+        this.raytracer.setToneMapping(settings);
+    }
+
     setWorkerCount(count: number): void {
         this.raytracer.setWorkerCount(count);
     }
 
-    exportImage(filename: string = 'raytraced-image.png'): void {
+    stop(): void {
+        this.raytracer.stop();
+    }
+
+    /**
+     * Downloads the image. "png" saves the canvas as it is shown; the other
+     * formats are encoded from the float framebuffer, so they need a render.
+     * HDR and PFM keep the raw values of auxiliary passes (depth in scene
+     * units, normals in -1..1, object index + 1).
+     */
+    async exportImage(filename: string = 'raytraced-image.png', format: ExportFormat = 'png'): Promise<void> {
         try {
-            this.canvas.toBlob((blob) => {
-                if (!blob) {
-                    throw new Error('Failed to create image blob');
-                }
+            if (format === 'png') {
+                this.canvas.toBlob((blob) => {
+                    if (!blob) {
+                        throw new Error('Failed to create image blob');
+                    }
+                    this.download(blob, filename);
+                }, 'image/png');
+                return;
+            }
 
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = filename;
-                link.click();
+            const colors = this.raytracer.getFramebuffer();
+            if (!colors) {
+                throw new Error('Nothing rendered yet');
+            }
 
-                URL.revokeObjectURL(url);
-                console.log(`Image exported as ${filename}`);
-            }, 'image/png');
+            const { width, height } = this.canvas;
+            const display = displayPass(this.raytracer.getFramebufferPass(), colors, this.raytracer.getToneMapping());
+            const bytes = format === 'hdr' ? encodeHDR(width, height, colors)
+                : format === 'pfm' ? encodePFM(width, height, colors)
+                : await encodePNG16(width, height, toneMapFloat(display.colors, display.toneMapping));
+            this.download(new Blob([bytes.buffer as ArrayBuffer]), filename);
         } catch (error) {
             console.error('Error exporting image:', error);
             throw error;
         }
     }
+
+    private canvasPNG(): Promise<Uint8Array> {
+        return new Promise((resolve, reject) => {
+            this.canvas.toBlob((blob) => {
+                if (!blob) {
+                    reject(new Error('Failed to create image blob'));
+                    return;
+                }
+                blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+            }, 'image/png');
+        });
+    }
+
+    private download(blob: Blob, filename: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+
+        URL.revokeObjectURL(url);
+        console.log(`Image exported as ${filename}`);
+    }
 }
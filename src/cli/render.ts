@@ -0,0 +1,379 @@
+import { Worker } from 'worker_threads';
+import { promises as fs, existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { RenderPass, Scene, Tile, ToneMappingOperator } from '../types/scene.types';
+import { buildBVH } from '../core/BVH';
+import { createTiles } from '../core/tiles';
+import { DEFAULT_ANTIALIASING } from '../core/antialiasing';
+import { DEFAULT_TONE_MAPPING, toneMap, toneMapFloat } from '../core/toneMapping';
+import { displayPass, RENDER_PASSES } from '../core/renderPasses';
+import { animationRange, evaluateAnimation, type FrameRange } from '../core/animation';
+import { shutterInterval } from '../core/motion';
+import { resolveMeshes } from '../loaders/objLoader';
+import { resolveTextures } from '../loaders/textureLoader';
+import { validateScene } from '../scenes/sceneValidator';
+import { encodeHDR, encodePFM, encodePNG, encodePNG16, encodePPM } from '../exporters/imageEncoders';
+import type { RenderWorkerData, RenderWorkerResult } from './renderWorker';
+
+export interface CliOptions {
+    scene: string;
+    output: string;
+    width: number;
+    height: number;
+    maxDepth: number;
+    threads: number;
+    samples: number;
+    pass: RenderPass;
+    toneMapping: ToneMappingOperator;
+    exposure: number;
+    srgb: boolean;
+    bitDepth: number;       // PNG only
+    frames?: FrameRange;    // animation frames to render; a range gets numbered output files
+}
+
+const OUTPUT_FORMATS = ['.png', '.ppm', '.hdr', '.pfm'];
+
+const TONE_MAPPING_OPERATORS: ToneMappingOperator[] = ['clamp', 'reinhard', 'aces'];
+
+const USAGE = `Usage: npm run render -- <scene> [options]
+
+  <scene>               Scene JSON file, or the name of a scene in public/scenes (e.g. "shapes")
+
+Options:
+  -o, --output <file>   Output file, .png, .ppm, .hdr or .pfm (default: <scene>.png)
+  -w, --width <px>      Image width (default: 800)
+  -h, --height <px>     Image height (default: 600)
+  -d, --max-depth <n>   Maximum reflection depth (default: 5)
+  -t, --threads <n>     Number of worker threads (default: CPU cores)
+  -s, --samples <n>     Anti-aliasing samples per pixel (default: 1)
+  -p, --pass <name>     Output pass: beauty, depth, normal, albedo, objectId,
+                        shadow or reflection (default: beauty)
+      --tonemap <op>    Tone mapping: clamp, reinhard or aces (default: clamp)
+      --exposure <ev>   Exposure correction in stops, e.g. -1 or 0.5 (default: 0)
+      --srgb            Encode the output with the sRGB curve (gamma correction)
+      --bit-depth <n>   Bits per channel for PNG output, 8 or 16 (default: 8)
+      --frame <n>       Animation frame to render (default: start of the animation)
+      --frames <a-b>    Render frames a to b as <output>_0001.png and so on
+      --help            Show this help`;
+
+const SCENES_DIR = path.resolve(__dirname, '../../../public/scenes');
+
+export function parseArgs(args: string[]): CliOptions {
+    const options: Partial<CliOptions> = {
+        width: 800,
+        height: 600,
+        maxDepth: 5,
+        threads: os.cpus().length || 4,
+        samples: 1,
+        pass: 'beauty',
+        toneMapping: DEFAULT_TONE_MAPPING.operator,
+        exposure: DEFAULT_TONE_MAPPING.exposure,
+        srgb: DEFAULT_TONE_MAPPING.srgb,
+        bitDepth: 8
+    };
+
+    const integer = (flag: string, value: string | undefined, min: number): number => {
+        const parsed = Number(value);
+        if (value === undefined || !Number.isInteger(parsed) || parsed < min) {
+            throw new Error(`${flag} expects an integer >= ${min}, got "${value ?? ''}"`);
+        }
+        return parsed;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-o':
+            case '--output':
+                if (!args[i + 1]) throw new Error(`${arg} expects a file name`);
+                options.output = args[++i];
+                break;
+            case '-w':
+            case '--width':
+                options.width = integer(arg, args[++i], 1);
+                break;
+            case '-h':
+            case '--height':
+                options.height = integer(arg, args[++i], 1);
+                break;
+            case '-d':
+            case '--max-depth':
+                options.maxDepth = integer(arg, args[++i], 1);
+                break;
+            case '-t':
+            case '--threads':
+                options.threads = integer(arg, args[++i], 1);
+                break;
+            case '-s':
+            case '--samples':
+                options.samples = integer(arg, args[++i], 1);
+                break;
+            case '-p':
+            case '--pass': {
+                const pass = args[++i] as RenderPass;
+                if (!RENDER_PASSES.includes(pass)) {
+                    throw new Error(`${arg} expects one of ${RENDER_PASSES.join(', ')}, got "${pass ?? ''}"`);
+                }
+                options.pass = pass;
+                break;
+            }
+            case '--tonemap': {
+                const operator = args[++i] as ToneMappingOperator;
+                if (!TONE_MAPPING_OPERATORS.includes(operator)) {
+                    throw new Error(`${arg} expects one of ${TONE_MAPPING_OPERATORS.join(', ')}, got "${operator ?? ''}"`);
+                }
+                options.toneMapping = operator;
+                break;
+            }
+            case '--exposure': {
+                const value = args[++i];
+                const exposure = Number(value);
+                if (value === undefined || value.trim() === '' || !Number.isFinite(exposure)) {
+                    throw new Error(`${arg} expects a number, got "${value ?? ''}"`);
+                }
+                options.exposure = exposure;
+                break;
+            }
+            case '--srgb':
+                options.srgb = true;
+                break;
+            case '--bit-depth':
+                options.bitDepth = integer(arg, args[++i], 8);
+                if (options.bitDepth !== 8 && options.bitDepth !== 16) {
+                    throw new Error(`${arg} expects 8 or 16, got "${options.bitDepth}"`);
+                }
+                break;
+            case '--frame': {
+                const value = args[++i];
+                const frame = Number(value);
+                if (value === undefined || value.trim() === '' || !Number.isFinite(frame)) {
+                    throw new Error(`${arg} expects a number, got "${value ?? ''}"`);
+                }
+                options.frames = { start: frame, end: frame };
+                break;
+            }
+            case '--frames': {
+                const value = args[++i];
+                const match = /^(\d+)-(\d+)$/.exec(value ?? '');
+                if (!match || Number(match[2]) < Number(match[1])) {
+                    throw new Error(`${arg} expects a range such as 0-47, got "${value ?? ''}"`);
+                }
+                options.frames = { start: Number(match[1]), end: Number(match[2]) };
+                break;
+            }
+            default:
+                if (arg.startsWith('-')) throw new Error(`Unknown option "${arg}"`);
+                if (options.scene) throw new Error(`Unexpected argument "${arg}"`);
+                options.scene = arg;
+        }
+    }
+
+    if (!options.scene) {
+        throw new Error('No scene given');
+    }
+
+    options.output ??= `${path.basename(options.scene, '.json')}.png`;
+    const extension = path.extname(options.output).toLowerCase();
+    if (!OUTPUT_FORMATS.includes(extension)) {
+        throw new Error(`Unsupported output format "${extension || options.output}" (use ${OUTPUT_FORMATS.join(', ')})`);
+    }
+    if (options.bitDepth === 16 && extension !== '.png') {
+        throw new Error('--bit-depth 16 is only supported for .png output');
+    }
+
+    return options as CliOptions;
+}
+
+export function resolveScenePath(scene: string): string {
+    if (existsSync(scene)) return path.resolve(scene);
+
+    const named = path.join(SCENES_DIR, scene.endsWith('.json') ? scene : `${scene}.json`);
+    if (existsSync(named)) return named;
+
+    throw new Error(`Scene "${scene}" not found (neither a file nor a scene in ${SCENES_DIR})`);
+}
+
+/**
+ * Reads and validates the scene, and resolves it at `frame` (by default the
+ * start of its animation).
+ */
+export async function loadScene(scenePath: string, frame?: number): Promise<Scene> {
+    return resolveFrame(await readScene(scenePath), scenePath, frame);
+}
+
+export async function readScene(scenePath: string): Promise<Scene> {
+    const text = await fs.readFile(scenePath, 'utf8');
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`${scenePath}: ${(error as Error).message}`);
+    }
+
+    return validateScene(data);
+}
+
+/**
+ * The validated scene at an animation frame, with meshes and textures loaded.
+ */
+export async function resolveFrame(scene: Scene, scenePath: string, frame?: number): Promise<Scene> {
+    const animated = scene.animation
+        ? evaluateAnimation(scene, frame ?? animationRange(scene.animation).start)
+        : scene;
+
+    // Meshes and textures are resolved relative to the scene file, read from disk instead of fetched
+    const resolved = await resolveMeshes(animated, scenePath, (file) => fs.readFile(file, 'utf8'));
+    return resolveTextures(resolved, scenePath, async (file) => new Uint8Array(await fs.readFile(file)));
+}
+
+/**
+ * Output file of a frame: the output name itself for a single frame,
+ * otherwise with the frame number appended, e.g. turntable_0007.png.
+ */
+export function frameOutput(options: CliOptions, frame: number): string {
+    if (!options.frames || options.frames.start === options.frames.end) return options.output;
+    const extension = path.extname(options.output);
+    return `${options.output.slice(0, -extension.length)}_${String(frame).padStart(4, '0')}${extension}`;
+}
+
+/**
+ * Renders the scene with a pool of worker threads that pull tiles from a
+ * shared queue and returns the image as linear RGB floats, before tone mapping.
+ */
+export async function renderScene(
+    scene: Scene,
+    options: CliOptions,
+    onProgress?: (progress: number) => void
+): Promise<Float32Array> {
+    const { width, height } = options;
+    const image = new Float32Array(width * height * 3);
+    const tiles = createTiles(width, height);
+    const queue = tiles.slice();
+    let completed = 0;
+
+    const workerData: RenderWorkerData = {
+        scene,
+        bvh: buildBVH(scene.objects, scene.definitions, shutterInterval(scene.camera)),
+        width,
+        height,
+        maxDepth: options.maxDepth,
+        antialiasing: { ...DEFAULT_ANTIALIASING, samplesPerPixel: options.samples },
+        pass: options.pass
+    };
+
+    const workers = Array.from(
+        { length: Math.min(options.threads, tiles.length) },
+        () => new Worker(path.join(__dirname, 'renderWorker.js'), { workerData })
+    );
+
+    try {
+        await Promise.all(workers.map(worker => new Promise<void>((resolve, reject) => {
+            const next = () => {
+                const tile = queue.shift();
+                if (tile) worker.postMessage(tile);
+                else resolve();
+            };
+
+            worker.on('message', ({ tile, colors }: RenderWorkerResult) => {
+                copyTile(image, width, tile, colors);
+                completed++;
+                onProgress?.((completed / tiles.length) * 100);
+                next();
+            });
+            worker.on('error', reject);
+            // The promise resolves once the worker's last tile is back, so any
+            // exit that still counts comes before that, whatever the exit code
+            worker.on('exit', (code) => {
+                reject(new Error(`Worker stopped with exit code ${code} before all tiles were rendered`));
+            });
+
+            next();
+        })));
+    } finally {
+        await Promise.all(workers.map(worker => worker.terminate()));
+    }
+
+    return image;
+}
+
+/**
+ * Encodes the framebuffer in the format of the output file. .hdr and .pfm keep
+ * the linear (or raw pass) values; the other formats are tone mapped first.
+ */
+export async function encodeImage(colors: Float32Array, options: CliOptions): Promise<Uint8Array> {
+    const { width, height } = options;
+    const display = displayPass(options.pass, colors, {
+        operator: options.toneMapping,
+        exposure: options.exposure,
+        srgb: options.srgb
+    });
+
+    switch (path.extname(options.output).toLowerCase()) {
+        case '.hdr':
+            return encodeHDR(width, height, colors);
+        case '.pfm':
+            return encodePFM(width, height, colors);
+        case '.png':
+            if (options.bitDepth === 16) {
+                return encodePNG16(width, height, toneMapFloat(display.colors, display.toneMapping));
+            }
+            break;
+    }
+
+    const image = new Uint8ClampedArray(width * height * 4);
+    toneMap(display.colors, image, display.toneMapping);
+    return path.extname(options.output).toLowerCase() === '.ppm'
+        ? encodePPM(width, height, image)
+        : encodePNG(width, height, image);
+}
+
+function copyTile(image: Float32Array, imageWidth: number, tile: Tile, colors: Float32Array): void {
+    for (let y = 0; y < tile.height; y++) {
+        const row = colors.subarray(y * tile.width * 3, (y + 1) * tile.width * 3);
+        image.set(row, ((tile.y + y) * imageWidth + tile.x) * 3);
+    }
+}
+
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    if (args.length === 0 || args.includes('--help')) {
+        console.log(USAGE);
+        return;
+    }
+
+    const options = parseArgs(args);
+    const scenePath = resolveScenePath(options.scene);
+    const scene = await readScene(scenePath);
+    const first = scene.animation ? animationRange(scene.animation).start : 0;
+    const frames = options.frames ?? { start: first, end: first };
+
+    for (let frame = frames.start; frame <= frames.end; frame++) {
+        const output = frameOutput(options, frame);
+        const label = scene.animation ? ` (frame ${frame})` : '';
+        console.log(`Rendering ${path.relative(process.cwd(), scenePath)}${label} at ${options.width}x${options.height} ` +
+            `with ${options.threads} threads...`);
+        const startTime = Date.now();
+
+        let lastReported = -1;
+        const colors = await renderScene(await resolveFrame(scene, scenePath, frame), options, (progress) => {
+            const step = Math.floor(progress / 10) * 10;
+            if (step > lastReported) {
+                lastReported = step;
+                process.stdout.write(`\r  ${step}%`);
+            }
+        });
+        process.stdout.write('\n');
+
+        await fs.writeFile(output, await encodeImage(colors, options));
+
+        console.log(`Wrote ${output} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    }
+}
+
+if (require.main === module) {
+    main().catch((error: Error) => {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'worker_threads';
+import type { Scene, AntialiasingSettings, RenderPass, Tile } from '../types/scene.types';
+import type { BVH } from '../core/BVH';
+import { Tracer } from '../core/Tracer';
+
+export interface RenderWorkerData {
+    scene: Scene;
+    bvh: BVH;
+    width: number;
+    height: number;
+    maxDepth: number;
+    antialiasing: AntialiasingSettings;
+    pass: RenderPass;
+}
+
+export interface RenderWorkerResult {
+    tile: Tile;
+    colors: Float32Array;       // linear RGB, or the values of an auxiliary pass
+}
+
+// worker_threads counterpart of raytracer.worker.ts: the scene arrives once as
+// workerData, then every message is a tile to render
+const data = workerData as RenderWorkerData;
+const tracer = new Tracer(data.scene, data.bvh, {
+    width: data.width,
+    height: data.height,
+    maxDepth: data.maxDepth
+});
+
+parentPort!.on('message', (tile: Tile) => {
+    const result: RenderWorkerResult = { tile, colors: tracer.renderRegion(tile, data.antialiasing, data.pass) };
+    parentPort!.postMessage(result, [result.colors.buffer as ArrayBuffer]);
+});
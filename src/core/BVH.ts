@@ -0,0 +1,414 @@
+import type { Vec3, Ray, SceneObject } from '../types/scene.types';
+import { getTransformMatrices } from './transforms';
+import { objectVelocity, type ShutterInterval } from './motion';
+
+export interface AABB {
+    min: Vec3;
+    max: Vec3;
+}
+
+export interface BVHNode {
+    bounds: AABB;
+    left: number;   // child node indices, -1 for leaves
+    right: number;
+    start: number;  // first entry in BVH.objectIndices (leaves only)
+    count: number;
+}
+
+// Flat, JSON-serializable hierarchy so it can be posted to workers as-is
+export interface BVH {
+    nodes: BVHNode[];
+    objectIndices: number[];
+    unbounded: number[];    // objects without finite bounds (planes), always tested
+    definitions?: Record<string, BVH>;  // one hierarchy per Scene.definitions entry, in object space
+}
+
+interface BuildItem {
+    index: number;
+    bounds: AABB;
+    centroid: Vec3;
+}
+
+const SAH_BINS = 12;
+const MAX_LEAF_SIZE = 2;
+const TRAVERSAL_COST = 1;
+const INTERSECTION_COST = 1;
+
+/**
+ * World-space bounds of an object, or null if it is unbounded. Instances need
+ * the hierarchies of the definitions they reference. Moving objects are
+ * bounded over their whole path while the shutter is open.
+ */
+export function computeBounds(obj: SceneObject, definitions: Record<string, BVH> = {}, shutter?: ShutterInterval): AABB | null {
+    const bounds = transformedBounds(obj, computeLocalBounds(obj, definitions, shutter));
+    const velocity = objectVelocity(obj);
+    if (!bounds || !velocity || !shutter) return bounds;
+
+    const moved = (time: number): AABB => ({
+        min: { x: bounds.min.x + velocity.x * time, y: bounds.min.y + velocity.y * time, z: bounds.min.z + velocity.z * time },
+        max: { x: bounds.max.x + velocity.x * time, y: bounds.max.y + velocity.y * time, z: bounds.max.z + velocity.z * time }
+    });
+    return unionBounds(moved(shutter.open), moved(shutter.close));
+}
+
+function transformedBounds(obj: SceneObject, bounds: AABB | null): AABB | null {
+    if (!bounds || !obj.transform) return bounds;
+
+    // Bounds of the eight transformed corners
+    const { matrix } = getTransformMatrices(obj.transform);
+    let result = emptyBounds();
+    for (const x of [bounds.min.x, bounds.max.x]) {
+        for (const y of [bounds.min.y, bounds.max.y]) {
+            for (const z of [bounds.min.z, bounds.max.z]) {
+                const corner = matrix.transformPoint({ x, y, z });
+                result = unionBounds(result, { min: corner, max: corner });
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Bounds in the object's own space, before its transform.
+ */
+export function computeLocalBounds(obj: SceneObject, definitions: Record<string, BVH> = {}, shutter?: ShutterInterval): AABB | null {
+    switch (obj.type) {
+        case 'sphere':
+            return sphereBounds(obj.center, obj.radius);
+        case 'triangle':
+            return padBounds({
+                min: {
+                    x: Math.min(obj.v0.x, obj.v1.x, obj.v2.x),
+                    y: Math.min(obj.v0.y, obj.v1.y, obj.v2.y),
+                    z: Math.min(obj.v0.z, obj.v1.z, obj.v2.z)
+                },
+                max: {
+                    x: Math.max(obj.v0.x, obj.v1.x, obj.v2.x),
+                    y: Math.max(obj.v0.y, obj.v1.y, obj.v2.y),
+                    z: Math.max(obj.v0.z, obj.v1.z, obj.v2.z)
+                }
+            });
+        case 'box':
+            return padBounds({ min: { ...obj.min }, max: { ...obj.max } });
+        case 'cylinder':
+        case 'cone': {
+            const axis = { x: obj.top.x - obj.base.x, y: obj.top.y - obj.base.y, z: obj.top.z - obj.base.z };
+            const topRadius = obj.type === 'cone' ? obj.topRadius ?? 0 : obj.radius;
+            return unionBounds(diskBounds(obj.base, axis, obj.radius), diskBounds(obj.top, axis, topRadius));
+        }
+        case 'disk':
+            return padBounds(diskBounds(obj.center, obj.normal, obj.radius));
+        case 'torus': {
+            // The ring of tube centers, grown by the tube radius
+            const ring = diskBounds(obj.center, obj.axis ?? { x: 0, y: 1, z: 0 }, obj.majorRadius);
+            const r = obj.minorRadius;
+            return {
+                min: { x: ring.min.x - r, y: ring.min.y - r, z: ring.min.z - r },
+                max: { x: ring.max.x + r, y: ring.max.y + r, z: ring.max.z + r }
+            };
+        }
+        case 'capsule':
+            return unionBounds(sphereBounds(obj.base, obj.radius), sphereBounds(obj.top, obj.radius));
+        case 'csg': {
+            // A difference stays within its first child, an intersection within every bounded child
+            const children = obj.children.map(child => computeBounds(child, definitions, shutter));
+            if (obj.operation === 'union') {
+                return children.some(bounds => !bounds) ? null : children.reduce(unionBounds, emptyBounds());
+            }
+            if (obj.operation === 'difference') return children[0];
+            const bounded = children.filter((bounds): bounds is AABB => !!bounds);
+            return bounded.length === 0 ? null : bounded.reduce(overlapBounds);
+        }
+        case 'instance': {
+            const definition = definitions[obj.ref];
+            if (!definition || definition.nodes.length === 0 || definition.unbounded.length > 0) return null;
+            return definition.nodes[0].bounds;
+        }
+        case 'plane':
+        default:
+            return null;
+    }
+}
+
+/**
+ * Builds the hierarchy for the scene objects plus one per definition, so
+ * instances can be traversed in object space. Pass the camera's shutter
+ * interval when objects have a velocity.
+ */
+export function buildBVH(objects: SceneObject[], definitions: Record<string, SceneObject[]> = {}, shutter?: ShutterInterval): BVH {
+    const definitionBVHs: Record<string, BVH> = {};
+
+    // Definitions may instance other definitions, so build the referenced ones first
+    const buildDefinition = (name: string, pending: Set<string>) => {
+        if (definitionBVHs[name] || pending.has(name) || !definitions[name]) return;
+        pending.add(name);
+        for (const obj of definitions[name]) {
+            if (obj.type === 'instance') buildDefinition(obj.ref, pending);
+        }
+        definitionBVHs[name] = buildHierarchy(definitions[name], definitionBVHs, shutter);
+    };
+    for (const name of Object.keys(definitions)) {
+        buildDefinition(name, new Set());
+    }
+
+    const bvh = buildHierarchy(objects, definitionBVHs, shutter);
+    if (Object.keys(definitionBVHs).length > 0) {
+        bvh.definitions = definitionBVHs;
+    }
+    return bvh;
+}
+
+function buildHierarchy(objects: SceneObject[], definitions: Record<string, BVH>, shutter?: ShutterInterval): BVH {
+    const bvh: BVH = { nodes: [], objectIndices: [], unbounded: [] };
+    const items: BuildItem[] = [];
+
+    objects.forEach((obj, index) => {
+        const bounds = computeBounds(obj, definitions, shutter);
+        if (!bounds) {
+            bvh.unbounded.push(index);
+            return;
+        }
+        items.push({
+            index,
+            bounds,
+            centroid: {
+                x: (bounds.min.x + bounds.max.x) * 0.5,
+                y: (bounds.min.y + bounds.max.y) * 0.5,
+                z: (bounds.min.z + bounds.max.z) * 0.5
+            }
+        });
+    });
+
+    if (items.length > 0) {
+        buildNode(bvh, items);
+    }
+
+    return bvh;
+}
+
+/**
+ * Visits every object whose bounds the ray may hit closer than maxDistance.
+ * `visit` returns the distance up to which further candidates are still of
+ * interest (the closest hit so far); a negative value stops the traversal.
+ */
+export function traverseBVH(bvh: BVH, ray: Ray, maxDistance: number, visit: (objectIndex: number) => number): void {
+    let limit = maxDistance;
+
+    for (const index of bvh.unbounded) {
+        limit = visit(index);
+        if (limit < 0) return;
+    }
+
+    if (bvh.nodes.length === 0) return;
+
+    const invDirX = 1 / ray.direction.x;
+    const invDirY = 1 / ray.direction.y;
+    const invDirZ = 1 / ray.direction.z;
+
+    const rootDistance = intersectBounds(bvh.nodes[0].bounds, ray.origin, invDirX, invDirY, invDirZ);
+    if (rootDistance >= limit) return;
+
+    // Entries are (node index, entry distance); the nearer child is visited first
+    const stack: number[] = [0, rootDistance];
+    while (stack.length > 0) {
+        const entryDistance = stack.pop()!;
+        const node = bvh.nodes[stack.pop()!];
+        if (entryDistance >= limit) continue;
+
+        if (node.left < 0) {
+            for (let i = node.start; i < node.start + node.count; i++) {
+                limit = visit(bvh.objectIndices[i]);
+                if (limit < 0) return;
+            }
+            continue;
+        }
+
+        const leftDistance = intersectBounds(bvh.nodes[node.left].bounds, ray.origin, invDirX, invDirY, invDirZ);
+        const rightDistance = intersectBounds(bvh.nodes[node.right].bounds, ray.origin, invDirX, invDirY, invDirZ);
+
+        if (leftDistance <= rightDistance) {
+            if (rightDistance < limit) stack.push(node.right, rightDistance);
+            if (leftDistance < limit) stack.push(node.left, leftDistance);
+        } else {
+            if (leftDistance < limit) stack.push(node.left, leftDistance);
+            if (rightDistance < limit) stack.push(node.right, rightDistance);
+        }
+    }
+}
+
+function buildNode(bvh: BVH, items: BuildItem[]): number {
+    const nodeIndex = bvh.nodes.length;
+    const bounds = items.reduce<AABB>((acc, item) => unionBounds(acc, item.bounds), emptyBounds());
+    const node: BVHNode = { bounds, left: -1, right: -1, start: 0, count: 0 };
+    bvh.nodes.push(node);
+
+    const split = items.length > MAX_LEAF_SIZE ? findSahSplit(items, bounds) : null;
+
+    if (!split) {
+        node.start = bvh.objectIndices.length;
+        node.count = items.length;
+        for (const item of items) bvh.objectIndices.push(item.index);
+        return nodeIndex;
+    }
+
+    node.left = buildNode(bvh, split.left);
+    node.right = buildNode(bvh, split.right);
+    return nodeIndex;
+}
+
+function findSahSplit(items: BuildItem[], bounds: AABB): { left: BuildItem[]; right: BuildItem[] } | null {
+    const leafCost = items.length * INTERSECTION_COST;
+    const parentArea = surfaceArea(bounds);
+    let bestCost = leafCost;
+    let bestAxis: keyof Vec3 | null = null;
+    let bestBin = 0;
+    let bestMin = 0;
+    let bestExtent = 0;
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+        let centroidMin = Infinity;
+        let centroidMax = -Infinity;
+        for (const item of items) {
+            centroidMin = Math.min(centroidMin, item.centroid[axis]);
+            centroidMax = Math.max(centroidMax, item.centroid[axis]);
+        }
+
+        const extent = centroidMax - centroidMin;
+        if (extent <= 0) continue;
+
+        const binBounds: AABB[] = [];
+        const binCounts: number[] = [];
+        for (let i = 0; i < SAH_BINS; i++) {
+            binBounds.push(emptyBounds());
+            binCounts.push(0);
+        }
+
+        for (const item of items) {
+            const bin = binIndex(item.centroid[axis], centroidMin, extent);
+            binBounds[bin] = unionBounds(binBounds[bin], item.bounds);
+            binCounts[bin]++;
+        }
+
+        // Sweep from the right to get the cost of every "bins above the split" set
+        const rightArea: number[] = new Array(SAH_BINS).fill(0);
+        const rightCount: number[] = new Array(SAH_BINS).fill(0);
+        let accBounds = emptyBounds();
+        let accCount = 0;
+        for (let i = SAH_BINS - 1; i > 0; i--) {
+            accBounds = unionBounds(accBounds, binBounds[i]);
+            accCount += binCounts[i];
+            rightArea[i] = surfaceArea(accBounds);
+            rightCount[i] = accCount;
+        }
+
+        accBounds = emptyBounds();
+        accCount = 0;
+        for (let i = 0; i < SAH_BINS - 1; i++) {
+            accBounds = unionBounds(accBounds, binBounds[i]);
+            accCount += binCounts[i];
+            if (accCount === 0 || rightCount[i + 1] === 0) continue;
+
+            const cost = TRAVERSAL_COST + INTERSECTION_COST *
+                (surfaceArea(accBounds) * accCount + rightArea[i + 1] * rightCount[i + 1]) / parentArea;
+
+            if (cost < bestCost) {
+                bestCost = cost;
+                bestAxis = axis;
+                bestBin = i;
+                bestMin = centroidMin;
+                bestExtent = extent;
+            }
+        }
+    }
+
+    if (bestAxis === null) return null;
+
+    const axis = bestAxis;
+    const left: BuildItem[] = [];
+    const right: BuildItem[] = [];
+    for (const item of items) {
+        if (binIndex(item.centroid[axis], bestMin, bestExtent) <= bestBin) left.push(item);
+        else right.push(item);
+    }
+
+    return { left, right };
+}
+
+function binIndex(value: number, min: number, extent: number): number {
+    return Math.min(SAH_BINS - 1, Math.floor(((value - min) / extent) * SAH_BINS));
+}
+
+function intersectBounds(bounds: AABB, origin: Vec3, invDirX: number, invDirY: number, invDirZ: number): number {
+    // Slab test, returns the entry distance or Infinity on a miss
+    const tx1 = (bounds.min.x - origin.x) * invDirX;
+    const tx2 = (bounds.max.x - origin.x) * invDirX;
+    const ty1 = (bounds.min.y - origin.y) * invDirY;
+    const ty2 = (bounds.max.y - origin.y) * invDirY;
+    const tz1 = (bounds.min.z - origin.z) * invDirZ;
+    const tz2 = (bounds.max.z - origin.z) * invDirZ;
+
+    const tmin = Math.max(Math.min(tx1, tx2), Math.min(ty1, ty2), Math.min(tz1, tz2));
+    const tmax = Math.min(Math.max(tx1, tx2), Math.max(ty1, ty2), Math.max(tz1, tz2));
+
+    if (tmax < 0 || tmin > tmax) return Infinity;
+    return Math.max(tmin, 0);
+}
+
+function emptyBounds(): AABB {
+    return {
+        min: { x: Infinity, y: Infinity, z: Infinity },
+        max: { x: -Infinity, y: -Infinity, z: -Infinity }
+    };
+}
+
+function unionBounds(a: AABB, b: AABB): AABB {
+    return {
+        min: { x: Math.min(a.min.x, b.min.x), y: Math.min(a.min.y, b.min.y), z: Math.min(a.min.z, b.min.z) },
+        max: { x: Math.max(a.max.x, b.max.x), y: Math.max(a.max.y, b.max.y), z: Math.max(a.max.z, b.max.z) }
+    };
+}
+
+function sphereBounds(center: Vec3, radius: number): AABB {
+    return {
+        min: { x: center.x - radius, y: center.y - radius, z: center.z - radius },
+        max: { x: center.x + radius, y: center.y + radius, z: center.z + radius }
+    };
+}
+
+/**
+ * Bounds of a disk around `center` perpendicular to `normal`.
+ */
+function diskBounds(center: Vec3, normal: Vec3, radius: number): AABB {
+    const length = Math.sqrt(normal.x * normal.x + normal.y * normal.y + normal.z * normal.z) || 1;
+    // Extent along each axis is radius · sin(angle between the axis and the normal)
+    const extent = (component: number) => radius * Math.sqrt(Math.max(0, 1 - (component / length) ** 2));
+    const e = { x: extent(normal.x), y: extent(normal.y), z: extent(normal.z) };
+    return {
+        min: { x: center.x - e.x, y: center.y - e.y, z: center.z - e.z },
+        max: { x: center.x + e.x, y: center.y + e.y, z: center.z + e.z }
+    };
+}
+
+function overlapBounds(a: AABB, b: AABB): AABB {
+    return {
+        min: { x: Math.max(a.min.x, b.min.x), y: Math.max(a.min.y, b.min.y), z: Math.max(a.min.z, b.min.z) },
+        max: { x: Math.min(a.max.x, b.max.x), y: Math.min(a.max.y, b.max.y), z: Math.min(a.max.z, b.max.z) }
+    };
+}
+
+function padBounds(bounds: AABB): AABB {
+    // Keep flat (axis-aligned) triangles and boxes from producing zero-width slabs
+    const epsilon = 1e-4;
+    return {
+        min: { x: bounds.min.x - epsilon, y: bounds.min.y - epsilon, z: bounds.min.z - epsilon },
+        max: { x: bounds.max.x + epsilon, y: bounds.max.y + epsilon, z: bounds.max.z + epsilon }
+    };
+}
+
+function surfaceArea(bounds: AABB): number {
+    const dx = bounds.max.x - bounds.min.x;
+    const dy = bounds.max.y - bounds.min.y;
+    const dz = bounds.max.z - bounds.min.z;
+    if (dx < 0 || dy < 0 || dz < 0) return 0;
+    return 2 * (dx * dy + dy * dz + dz * dx);
+}
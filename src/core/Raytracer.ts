@@ -1,15 +1,45 @@
-import type { Scene, Ray, HitInfo, Color, SceneObject, Sphere, Plane, Triangle, Box, Light } from '../types/scene.types';
-import { Vector3 } from '../math/Vector3';
+import type { Scene, RenderMode, RenderPass, AntialiasingSettings, Tile, ToneMappingSettings } from '../types/scene.types';
+import { buildBVH, type BVH } from './BVH';
+import { resolveMeshes } from '../loaders/objLoader';
+import { resolveTextures } from '../loaders/textureLoader';
+import { validateScene } from '../scenes/sceneValidator';
+import { DEFAULT_ANTIALIASING } from './antialiasing';
+import { Tracer } from './Tracer';
+import { DEFAULT_TONE_MAPPING, toneMap } from './toneMapping';
+import { displayPass } from './renderPasses';
+import { WorkerPool } from '../workers/WorkerPool';
+import { createTiles } from './tiles';
+import { throwIfCancelled } from './RenderCancelledError';
+import { animationRange, evaluateAnimation, type FrameRange } from './animation';
+import { shutterInterval } from './motion';
 
 export class Raytracer {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
+    // The validated scene as loaded; `scene` is its resolved state at `frame`
+    private source!: Scene;
+    private basePath: string = '';
+    private frame: number = 0;
     private scene!: Scene;
+    private bvh!: BVH;
     private width: number;
     private height: number;
     private maxDepth: number = 5;
     private useWorkers: boolean = true;
     private workerCount: number = navigator.hardwareConcurrency || 4;
+    private renderMode: RenderMode = 'whitted';
+    private pass: RenderPass = 'beauty';
+    // Pass the framebuffer holds, which the canvas keeps showing until the next render
+    private framebufferPass: RenderPass = 'beauty';
+    private maxSamples: number = 256;
+    private stopRequested: boolean = false;
+    private antialiasing: AntialiasingSettings = { ...DEFAULT_ANTIALIASING };
+    private toneMapping: ToneMappingSettings = { ...DEFAULT_TONE_MAPPING };
+    // Linear RGB of the current render, kept so it can be tone mapped again without tracing
+    private framebuffer: Float32Array | null = null;
+    private framebufferScale: number = 1;
+    private workerPool: WorkerPool | null = null;
+    private activeRender: AbortController | null = null;
 
     constructor(canvas: HTMLCanvasElement) {
         this.canvas = canvas;
@@ -20,12 +50,9 @@ export class Raytracer {
         this.height = canvas.height;
     }
 
-    loadScene(sceneData: Scene | string): void {
-        if (typeof sceneData === 'string') {
-            this.scene = JSON.parse(sceneData);
-        } else {
-            this.scene = sceneData;
-        }
+    async loadScene(sceneData: Scene | string, basePath: string = ''): Promise<void> {
+        const scene = validateScene(typeof sceneData === 'string' ? JSON.parse(sceneData) : sceneData);
+        await this.useScene(scene, basePath);
         console.log('Scene loaded:', this.scene);
     }
 
@@ -35,7 +62,7 @@ export class Raytracer {
             if (!response.ok) {
                 throw new Error(`HTTP error! status: ${response.status}`);
             }
-            this.scene = await response.json();
+            await this.useScene(validateScene(await response.json()), jsonPath);
             console.log('Scene loaded from file:', jsonPath);
         } catch (error) {
             console.error('Error loading scene:', error);
@@ -43,488 +70,318 @@ export class Raytracer {
         }
     }
 
-    setMaxDepth(depth: number): void {
-        this.maxDepth = depth;
+    /**
+     * Frames of the scene's animation, or null for a static scene.
+     */
+    getFrameRange(): FrameRange | null {
+        return this.source?.animation ? animationRange(this.source.animation) : null;
     }
 
-    setUseWorkers(useWorkers: boolean): void {
-        this.useWorkers = useWorkers;
+    getFrame(): number {
+        return this.frame;
     }
 
-    setWorkerCount(count: number): void {
-        this.workerCount = Math.max(1, Math.min(count, 16));
-    }
-
-    async render(progressCallback?: (progress: number) => void): Promise<void> {
-        if (!this.scene) {
+    /**
+     * Moves the animation to `frame` (fractional frames are interpolated);
+     * the next render shows the scene at that point.
+     */
+    async setFrame(frame: number): Promise<void> {
+        if (!this.source) {
             throw new Error('No scene loaded');
         }
-
-        if (this.useWorkers) {
-            return this.renderWithWorkers(progressCallback);
-        } else {
-            return this.renderSingleThreaded(progressCallback);
-        }
+        this.frame = frame;
+        await this.prepareFrame();
     }
 
-    private async renderWithWorkers(progressCallback?: (progress: number) => void): Promise<void> {
-        const imageData = this.ctx.createImageData(this.width, this.height);
-        const rowsPerWorker = Math.ceil(this.height / this.workerCount);
-        const workers: Worker[] = [];
-        const promises: Promise<void>[] = [];
-
-        let completedRows = 0;
-
-        for (let i = 0; i < this.workerCount; i++) {
-            const startRow = i * rowsPerWorker;
-            const endRow = Math.min(startRow + rowsPerWorker, this.height);
-
-            if (startRow >= this.height) break;
-
-            const worker = new Worker(
-                new URL('../workers/raytracer.worker.ts', import.meta.url),
-                { type: 'module' }
-            );
-            workers.push(worker);
-
-            const promise = new Promise<void>((resolve, reject) => {
-                worker.onmessage = (e) => {
-                    const { startRow, endRow, pixels } = e.data;
-
-                    // Copy pixels to imageData
-                    for (let y = startRow; y < endRow; y++) {
-                        for (let x = 0; x < this.width; x++) {
-                            const srcIndex = ((y - startRow) * this.width + x) * 4;
-                            const dstIndex = (y * this.width + x) * 4;
-                            imageData.data[dstIndex] = pixels[srcIndex];
-                            imageData.data[dstIndex + 1] = pixels[srcIndex + 1];
-                            imageData.data[dstIndex + 2] = pixels[srcIndex + 2];
-                            imageData.data[dstIndex + 3] = pixels[srcIndex + 3];
-                        }
-                    }
-
-                    completedRows += (endRow - startRow);
-                    if (progressCallback) {
-                        const progress = (completedRows / this.height) * 100;
-                        progressCallback(progress);
-                    }
-
-                    worker.terminate();
-                    resolve();
-                };
-
-                worker.onerror = (error) => {
-                    worker.terminate();
-                    reject(error);
-                };
-
-                worker.postMessage({
-                    scene: this.scene,
-                    width: this.width,
-                    height: this.height,
-                    startRow,
-                    endRow,
-                    maxDepth: this.maxDepth
-                });
-            });
-
-            promises.push(promise);
-        }
-
-        await Promise.all(promises);
-        this.ctx.putImageData(imageData, 0, 0);
-        if (progressCallback) progressCallback(100);
+    private async useScene(scene: Scene, basePath: string): Promise<void> {
+        this.source = scene;
+        this.basePath = basePath;
+        this.frame = scene.animation ? animationRange(scene.animation).start : 0;
+        await this.prepareFrame();
     }
 
-    private async renderSingleThreaded(progressCallback?: (progress: number) => void): Promise<void> {
-        const imageData = this.ctx.createImageData(this.width, this.height);
-
-        for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-                const ray = this.getRay(x, y);
-                const color = this.traceRay(ray, this.maxDepth);
-
-                const index = (y * this.width + x) * 4;
-                imageData.data[index] = Math.min(255, Math.max(0, color.r * 255));
-                imageData.data[index + 1] = Math.min(255, Math.max(0, color.g * 255));
-                imageData.data[index + 2] = Math.min(255, Math.max(0, color.b * 255));
-                imageData.data[index + 3] = 255;
-            }
+    private async prepareFrame(): Promise<void> {
+        const scene = evaluateAnimation(this.source, this.frame);
+        const resolved = await resolveTextures(await resolveMeshes(scene, this.basePath), this.basePath);
 
-            if (progressCallback && y % 10 === 0) {
-                const progress = (y / this.height) * 100;
-                progressCallback(progress);
-
-                if (y % 50 === 0) {
-                    await new Promise(resolve => setTimeout(resolve, 1));
-                }
-            }
-        }
+        // A running render would continue with the new scene and mix both into one image
+        this.activeRender?.abort();
+        this.scene = resolved;
+        this.bvh = buildBVH(this.scene.objects, this.scene.definitions, shutterInterval(this.scene.camera));
+        this.workerPool?.setScene(this.scene, this.bvh);
+    }
 
-        this.ctx.putImageData(imageData, 0, 0);
-        if (progressCallback) progressCallback(100);
+    setMaxDepth(depth: number): void {
+        this.maxDepth = depth;
     }
 
-    private getRay(x: number, y: number): Ray {
-        const aspectRatio = this.width / this.height;
-        const fovRadians = (this.scene.camera.fov * Math.PI) / 180;
+    setUseWorkers(useWorkers: boolean): void {
+        this.useWorkers = useWorkers;
+    }
 
-        const ndcX = (x + 0.5) / this.width;
-        const ndcY = (y + 0.5) / this.height;
+    setRenderMode(mode: RenderMode): void {
+        this.renderMode = mode;
+    }
 
-        const screenX = 2 * ndcX - 1;
-        const screenY = 1 - 2 * ndcY;
+    /**
+     * Selects what the next render produces: the image or an auxiliary pass.
+     */
+    setRenderPass(pass: RenderPass): void {
+        this.pass = pass;
+    }
 
-        const cameraX = screenX * aspectRatio * Math.tan(fovRadians / 2);
-        const cameraY = screenY * Math.tan(fovRadians / 2);
+    /**
+     * Pass held by the framebuffer, i.e. produced by the last render.
+     */
+    getFramebufferPass(): RenderPass {
+        return this.framebufferPass;
+    }
 
-        const cameraPos = Vector3.fromVec3(this.scene.camera.position);
-        const target = Vector3.fromVec3(this.scene.camera.target);
+    setMaxSamples(samples: number): void {
+        this.maxSamples = Math.max(1, samples);
+    }
 
-        const forward = target.subtract(cameraPos).normalize();
-        const right = forward.cross(new Vector3(0, 1, 0)).normalize();
-        const up = right.cross(forward).normalize();
+    setSamplesPerPixel(samples: number): void {
+        this.antialiasing.samplesPerPixel = Math.max(1, Math.floor(samples));
+    }
 
-        const rayDirection = forward
-            .add(right.multiply(cameraX))
-            .add(up.multiply(cameraY))
-            .normalize();
+    setAntialiasing(settings: Partial<AntialiasingSettings>): void {
+        this.antialiasing = { ...this.antialiasing, ...settings };
+        this.setSamplesPerPixel(this.antialiasing.samplesPerPixel);
+    }
 
-        return {
-            origin: this.scene.camera.position,
-            direction: rayDirection.toVec3()
-        };
+    /**
+     * Changes tone mapping, exposure or sRGB encoding and redraws the canvas
+     * from the stored framebuffer right away.
+     */
+    setToneMapping(settings: Partial<ToneMappingSettings>): void {
+        this.toneMapping = { ...this.toneMapping, ...settings };
+        this.presentFramebuffer();
     }
 
-    private traceRay(ray: Ray, depth: number): Color {
-        if (depth <= 0) return { r: 0, g: 0, b: 0 };
+    getToneMapping(): ToneMappingSettings {
+        return { ...this.toneMapping };
+    }
 
-        const hit = this.findClosestIntersection(ray);
+    /**
+     * Linear RGB (or pass values) of the last render, the average so far when
+     * path tracing, or null before the first render.
+     */
+    getFramebuffer(): Float32Array | null {
+        if (!this.framebuffer) return null;
+        const scale = this.framebufferScale;
+        return scale === 1 ? this.framebuffer.slice() : this.framebuffer.map(value => value * scale);
+    }
 
-        if (!hit.hit) {
-            return this.scene.backgroundColor;
-        }
+    setWorkerCount(count: number): void {
+        this.workerCount = Math.max(1, Math.min(count, 16));
+        this.workerPool?.resize(this.workerCount);
+    }
 
-        let color = { r: 0, g: 0, b: 0 };
+    stop(): void {
+        this.stopRequested = true;
+    }
 
-        for (const light of this.scene.lights) {
-            const lightColor = this.calculateLighting(hit, light, ray);
-            color.r += lightColor.r;
-            color.g += lightColor.g;
-            color.b += lightColor.b;
+    /**
+     * Renders the loaded scene to the canvas. Aborting `signal` rejects with a
+     * RenderCancelledError; starting a new render cancels the running one the
+     * same way, so two renders never write to the canvas at once.
+     */
+    async render(progressCallback?: (progress: number) => void, signal?: AbortSignal): Promise<void> {
+        if (!this.scene) {
+            throw new Error('No scene loaded');
         }
 
-        if (hit.material.reflectivity > 0 && depth > 1) {
-            const rayDir = Vector3.fromVec3(ray.direction);
-            const normal = Vector3.fromVec3(hit.normal);
-            const reflected = rayDir.reflect(normal).normalize();
+        this.activeRender?.abort();
+        const controller = new AbortController();
+        this.activeRender = controller;
 
-            const reflectionRay: Ray = {
-                origin: hit.point,
-                direction: reflected.toVec3()
-            };
+        const forwardAbort = () => controller.abort();
+        if (signal?.aborted) controller.abort();
+        signal?.addEventListener('abort', forwardAbort, { once: true });
 
-            const reflectedColor = this.traceRay(reflectionRay, depth - 1);
-            const reflectivity = hit.material.reflectivity;
+        try {
+            // Auxiliary passes are not noisy, so they always take one Whitted pass
+            if (this.renderMode === 'pathtrace' && this.pass === 'beauty') {
+                return await this.renderProgressive(controller.signal, progressCallback);
+            }
 
-            color.r = color.r * (1 - reflectivity) + reflectedColor.r * reflectivity;
-            color.g = color.g * (1 - reflectivity) + reflectedColor.g * reflectivity;
-            color.b = color.b * (1 - reflectivity) + reflectedColor.b * reflectivity;
+            if (this.useWorkers) {
+                return await this.renderWithWorkers(controller.signal, progressCallback);
+            } else {
+                return await this.renderSingleThreaded(controller.signal, progressCallback);
+            }
+        } finally {
+            signal?.removeEventListener('abort', forwardAbort);
+            if (this.activeRender === controller) {
+                this.activeRender = null;
+            }
         }
-
-        return color;
     }
 
-    private findClosestIntersection(ray: Ray): HitInfo {
-        let closestHit: HitInfo = {
-            hit: false,
-            distance: Infinity,
-            point: { x: 0, y: 0, z: 0 },
-            normal: { x: 0, y: 0, z: 0 },
-            material: { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 }
-        };
+    private async renderWithWorkers(signal: AbortSignal, progressCallback?: (progress: number) => void): Promise<void> {
+        const tiles = createTiles(this.width, this.height);
+        const framebuffer = this.resetFramebuffer();
+        let completedTiles = 0;
+
+        await this.getWorkerPool().run(tiles, this.createTileJob('whitted'), ({ tile, radiance }) => {
+            this.storeTile(framebuffer, tile, radiance);
+            // Each tile goes to the canvas as soon as it is done; depth is only
+            // normalized over the whole image, so that pass waits for the end
+            if (this.pass !== 'depth') {
+                const tileData = this.ctx.createImageData(tile.width, tile.height);
+                const display = displayPass(this.pass, radiance, this.toneMapping);
+                toneMap(display.colors, tileData.data, display.toneMapping);
+                this.ctx.putImageData(tileData, tile.x, tile.y);
+            }
 
-        for (const obj of this.scene.objects) {
-            const hit = this.intersectObject(ray, obj);
-            if (hit.hit && hit.distance < closestHit.distance) {
-                closestHit = hit;
+            completedTiles++;
+            if (progressCallback) {
+                const progress = (completedTiles / tiles.length) * 100;
+                progressCallback(progress);
             }
-        }
+        }, signal);
 
-        return closestHit;
-    }
-
-    private intersectObject(ray: Ray, obj: SceneObject): HitInfo {
-        switch (obj.type) {
-            case 'sphere':
-                return this.intersectSphere(ray, obj);
-            case 'plane':
-                return this.intersectPlane(ray, obj);
-            case 'triangle':
-                return this.intersectTriangle(ray, obj);
-            case 'box':
-                return this.intersectBox(ray, obj);
-            default:
-                return {
-                    hit: false,
-                    distance: Infinity,
-                    point: { x: 0, y: 0, z: 0 },
-                    normal: { x: 0, y: 0, z: 0 },
-                    material: { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 }
-                };
-        }
+        if (this.pass === 'depth') this.presentFramebuffer();
+        if (progressCallback) progressCallback(100);
     }
 
-    private intersectSphere(ray: Ray, sphere: Sphere): HitInfo {
-        const rayOrigin = Vector3.fromVec3(ray.origin);
-        const rayDir = Vector3.fromVec3(ray.direction);
-        const center = Vector3.fromVec3(sphere.center);
-
-        const oc = rayOrigin.subtract(center);
-        const a = rayDir.dot(rayDir);
-        const b = 2 * oc.dot(rayDir);
-        const c = oc.dot(oc) - sphere.radius * sphere.radius;
-
-        const discriminant = b * b - 4 * a * c;
-
-        if (discriminant < 0) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: sphere.material
-            };
-        }
-
-        const t1 = (-b - Math.sqrt(discriminant)) / (2 * a);
-        const t2 = (-b + Math.sqrt(discriminant)) / (2 * a);
-
-        const t = t1 > 0.001 ? t1 : (t2 > 0.001 ? t2 : -1);
-
-        if (t < 0.001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: sphere.material
-            };
+    private getWorkerPool(): WorkerPool {
+        if (!this.workerPool) {
+            this.workerPool = new WorkerPool(
+                this.workerCount,
+                () => new Worker(new URL('../workers/raytracer.worker.ts', import.meta.url), { type: 'module' })
+            );
+            this.workerPool.setScene(this.scene, this.bvh);
         }
+        return this.workerPool;
+    }
 
-        const hitPoint = rayOrigin.add(rayDir.multiply(t));
-        const normal = hitPoint.subtract(center).normalize();
-
+    private createTileJob(mode: RenderMode) {
         return {
-            hit: true,
-            distance: t,
-            point: hitPoint.toVec3(),
-            normal: normal.toVec3(),
-            material: sphere.material
+            width: this.width,
+            height: this.height,
+            maxDepth: this.maxDepth,
+            mode,
+            pass: this.pass,
+            antialiasing: this.antialiasing
         };
     }
 
-    private intersectPlane(ray: Ray, plane: Plane): HitInfo {
-        const rayDir = Vector3.fromVec3(ray.direction);
-        const normal = Vector3.fromVec3(plane.normal).normalize();
+    private async renderSingleThreaded(signal: AbortSignal, progressCallback?: (progress: number) => void): Promise<void> {
+        const framebuffer = this.resetFramebuffer();
+        const tracer = this.createTracer();
+        const rowsPerChunk = 10;
 
-        const denom = normal.dot(rayDir);
-        if (Math.abs(denom) < 0.0001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: plane.material
-            };
-        }
+        for (let startRow = 0; startRow < this.height; startRow += rowsPerChunk) {
+            throwIfCancelled(signal);
+            const endRow = Math.min(startRow + rowsPerChunk, this.height);
+            const region = { x: 0, y: startRow, width: this.width, height: endRow - startRow };
+            framebuffer.set(tracer.renderRegion(region, this.antialiasing, this.pass), startRow * this.width * 3);
+
+            if (progressCallback) {
+                const progress = (endRow / this.height) * 100;
+                progressCallback(progress);
+            }
 
-        const rayOrigin = Vector3.fromVec3(ray.origin);
-        const planePoint = Vector3.fromVec3(plane.point);
-        const t = planePoint.subtract(rayOrigin).dot(normal) / denom;
-
-        if (t < 0.001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: plane.material
-            };
+            // Yield so the page stays responsive and a cancel request can arrive
+            if (startRow % 50 === 0) {
+                await new Promise(resolve => setTimeout(resolve, 1));
+            }
         }
 
-        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+        throwIfCancelled(signal);
+        this.presentFramebuffer();
+        if (progressCallback) progressCallback(100);
+    }
 
-        return {
-            hit: true,
-            distance: t,
-            point: hitPoint.toVec3(),
-            normal: normal.toVec3(),
-            material: plane.material
-        };
+    private resetFramebuffer(): Float32Array {
+        this.framebuffer = new Float32Array(this.width * this.height * 3);
+        this.framebufferScale = 1;
+        this.framebufferPass = this.pass;
+        return this.framebuffer;
     }
 
-    private intersectTriangle(ray: Ray, triangle: Triangle): HitInfo {
-        // Möller-Trumbore intersection algorithm
-        const rayOrigin = Vector3.fromVec3(ray.origin);
-        const rayDir = Vector3.fromVec3(ray.direction);
-        const v0 = Vector3.fromVec3(triangle.v0);
-        const v1 = Vector3.fromVec3(triangle.v1);
-        const v2 = Vector3.fromVec3(triangle.v2);
-
-        const edge1 = v1.subtract(v0);
-        const edge2 = v2.subtract(v0);
-        const h = rayDir.cross(edge2);
-        const a = edge1.dot(h);
-
-        if (Math.abs(a) < 0.0001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: triangle.material
-            };
+    private storeTile(framebuffer: Float32Array, tile: Tile, radiance: Float32Array): void {
+        for (let y = 0; y < tile.height; y++) {
+            const row = radiance.subarray(y * tile.width * 3, (y + 1) * tile.width * 3);
+            framebuffer.set(row, ((tile.y + y) * this.width + tile.x) * 3);
         }
+    }
 
-        const f = 1.0 / a;
-        const s = rayOrigin.subtract(v0);
-        const u = f * s.dot(h);
-
-        if (u < 0.0 || u > 1.0) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: triangle.material
-            };
-        }
+    /**
+     * Tone maps the whole framebuffer onto the canvas.
+     */
+    private presentFramebuffer(): void {
+        if (!this.framebuffer) return;
+        const imageData = this.ctx.createImageData(this.width, this.height);
+        const display = displayPass(this.framebufferPass, this.framebuffer, this.toneMapping);
+        toneMap(display.colors, imageData.data, display.toneMapping, 0, this.framebufferScale);
+        this.ctx.putImageData(imageData, 0, 0);
+    }
 
-        const q = s.cross(edge1);
-        const v = f * rayDir.dot(q);
-
-        if (v < 0.0 || u + v > 1.0) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: triangle.material
-            };
-        }
+    private createTracer(): Tracer {
+        return new Tracer(this.scene, this.bvh, {
+            width: this.width,
+            height: this.height,
+            maxDepth: this.maxDepth
+        });
+    }
 
-        const t = f * edge2.dot(q);
+    private async renderProgressive(signal: AbortSignal, progressCallback?: (progress: number) => void): Promise<void> {
+        // Each pass adds one path-traced sample per pixel; the canvas shows the running average
+        const accumulation = this.resetFramebuffer();
+        this.stopRequested = false;
 
-        if (t < 0.001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: triangle.material
-            };
-        }
+        for (let sample = 1; sample <= this.maxSamples; sample++) {
+            if (this.useWorkers) {
+                await this.tracePassWithWorkers(accumulation, signal);
+            } else {
+                await this.tracePassSingleThreaded(accumulation, signal);
+            }
+            throwIfCancelled(signal);
 
-        const hitPoint = rayOrigin.add(rayDir.multiply(t));
-        const normal = edge1.cross(edge2).normalize();
+            this.framebufferScale = 1 / sample;
+            this.presentFramebuffer();
 
-        return {
-            hit: true,
-            distance: t,
-            point: hitPoint.toVec3(),
-            normal: normal.toVec3(),
-            material: triangle.material
-        };
-    }
+            if (progressCallback) progressCallback((sample / this.maxSamples) * 100);
 
-    private intersectBox(ray: Ray, box: Box): HitInfo {
-        // Slab method for axis-aligned bounding box
-        const rayOrigin = Vector3.fromVec3(ray.origin);
-        const rayDir = Vector3.fromVec3(ray.direction);
-        const min = Vector3.fromVec3(box.min);
-        const max = Vector3.fromVec3(box.max);
-
-        const invDirX = 1.0 / rayDir.x;
-        const invDirY = 1.0 / rayDir.y;
-        const invDirZ = 1.0 / rayDir.z;
-
-        const t1 = (min.x - rayOrigin.x) * invDirX;
-        const t2 = (max.x - rayOrigin.x) * invDirX;
-        const t3 = (min.y - rayOrigin.y) * invDirY;
-        const t4 = (max.y - rayOrigin.y) * invDirY;
-        const t5 = (min.z - rayOrigin.z) * invDirZ;
-        const t6 = (max.z - rayOrigin.z) * invDirZ;
-
-        const tmin = Math.max(Math.max(Math.min(t1, t2), Math.min(t3, t4)), Math.min(t5, t6));
-        const tmax = Math.min(Math.min(Math.max(t1, t2), Math.max(t3, t4)), Math.max(t5, t6));
-
-        if (tmax < 0 || tmin > tmax || tmin < 0.001) {
-            return {
-                hit: false,
-                distance: Infinity,
-                point: { x: 0, y: 0, z: 0 },
-                normal: { x: 0, y: 0, z: 0 },
-                material: box.material
-            };
+            // A stop request keeps the last complete pass on the canvas
+            if (this.stopRequested) break;
         }
+    }
 
-        const t = tmin;
-        const hitPoint = rayOrigin.add(rayDir.multiply(t));
-
-        // Calculate normal based on which face was hit
-        const center = min.add(max).multiply(0.5);
-        const p = hitPoint.subtract(center);
-        const d = min.subtract(center).multiply(0.5);
-        const bias = 1.0001;
-
-        let normal = new Vector3(0, 0, 0);
-        if (Math.abs(p.x / d.x) > bias) normal = new Vector3(Math.sign(p.x), 0, 0);
-        else if (Math.abs(p.y / d.y) > bias) normal = new Vector3(0, Math.sign(p.y), 0);
-        else if (Math.abs(p.z / d.z) > bias) normal = new Vector3(0, 0, Math.sign(p.z));
-        else normal = new Vector3(Math.sign(p.x), 0, 0); // fallback
-
-        return {
-            hit: true,
-            distance: t,
-            point: hitPoint.toVec3(),
-            normal: normal.toVec3(),
-            material: box.material
-        };
+    private async tracePassWithWorkers(accumulation: Float32Array, signal: AbortSignal): Promise<void> {
+        const tiles = createTiles(this.width, this.height);
+
+        await this.getWorkerPool().run(tiles, this.createTileJob('pathtrace'), ({ tile, radiance }) => {
+            for (let y = 0; y < tile.height; y++) {
+                for (let x = 0; x < tile.width; x++) {
+                    const src = (y * tile.width + x) * 3;
+                    const dst = ((tile.y + y) * this.width + tile.x + x) * 3;
+                    accumulation[dst] += radiance[src];
+                    accumulation[dst + 1] += radiance[src + 1];
+                    accumulation[dst + 2] += radiance[src + 2];
+                }
+            }
+        }, signal);
     }
 
-    private calculateLighting(hit: HitInfo, light: Light, ray: Ray): Color {
-        const hitPoint = Vector3.fromVec3(hit.point);
-        const lightPos = Vector3.fromVec3(light.position);
-        const normal = Vector3.fromVec3(hit.normal);
+    private async tracePassSingleThreaded(accumulation: Float32Array, signal: AbortSignal): Promise<void> {
+        const tracer = this.createTracer();
+        const rowsPerChunk = 50;
 
-        const lightDir = lightPos.subtract(hitPoint).normalize();
-        const distance = lightPos.subtract(hitPoint).length();
+        for (let startRow = 0; startRow < this.height; startRow += rowsPerChunk) {
+            const rows = Math.min(rowsPerChunk, this.height - startRow);
+            const radiance = tracer.tracePathRegion({ x: 0, y: startRow, width: this.width, height: rows });
 
-        const shadowOffset = normal.multiply(0.001);
-        const shadowRay: Ray = {
-            origin: hitPoint.add(shadowOffset).toVec3(),
-            direction: lightDir.toVec3()
-        };
+            const offset = startRow * this.width * 3;
+            for (let i = 0; i < radiance.length; i++) {
+                accumulation[offset + i] += radiance[i];
+            }
 
-        const shadowHit = this.findClosestIntersection(shadowRay);
-        if (shadowHit.hit && shadowHit.distance < distance) {
-            return { r: 0, g: 0, b: 0 };
+            await new Promise(resolve => setTimeout(resolve, 1));
+            throwIfCancelled(signal);
         }
-
-        const diffuse = Math.max(0, normal.dot(lightDir));
-        const attenuation = 1 / (1 + 0.1 * distance + 0.01 * distance * distance);
-
-        const viewDir = Vector3.fromVec3(ray.direction).multiply(-1).normalize();
-        const reflectDir = lightDir.multiply(-1).reflect(normal).normalize();
-        const specular = Math.pow(Math.max(0, viewDir.dot(reflectDir)), hit.material.shininess);
-
-        const intensity = light.intensity * attenuation;
-
-        return {
-            r: (hit.material.color.r * diffuse + specular) * light.color.r * intensity,
-            g: (hit.material.color.g * diffuse + specular) * light.color.g * intensity,
-            b: (hit.material.color.b * diffuse + specular) * light.color.b * intensity
-        };
     }
 }
@@ -0,0 +1,15 @@
+/**
+ * Rejection reason of a render that was aborted or replaced by a newer render.
+ */
+export class RenderCancelledError extends Error {
+    constructor(message: string = 'Render cancelled') {
+        super(message);
+        this.name = 'RenderCancelledError';
+    }
+}
+
+export function throwIfCancelled(signal: AbortSignal): void {
+    if (signal.aborted) {
+        throw new RenderCancelledError();
+    }
+}
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildBVH } from './BVH';
+import { DEFAULT_ANTIALIASING } from './antialiasing';
+import { Tracer } from './Tracer';
+import { shutterInterval } from './motion';
+import { parseArgs, readScene, renderScene, resolveFrame, resolveScenePath } from '../cli/render';
+
+const SCENES = ['shapes', 'glass', 'textures', 'motion_blur'];
+
+for (const name of SCENES) {
+    test(`${name}: worker threads render the same pixels as a single tracer`, async () => {
+        // 100×70 is not a multiple of the tile size, so the edge tiles are partial
+        const options = parseArgs([name, '-w', '100', '-h', '70', '-t', '2', '-s', '4']);
+        const scenePath = resolveScenePath(options.scene);
+        const scene = await resolveFrame(await readScene(scenePath), scenePath);
+
+        const tiled = await renderScene(scene, options);
+
+        const bvh = buildBVH(scene.objects, scene.definitions, shutterInterval(scene.camera));
+        const tracer = new Tracer(scene, bvh, options);
+        const single = tracer.renderRegion(
+            { x: 0, y: 0, width: options.width, height: options.height },
+            { ...DEFAULT_ANTIALIASING, samplesPerPixel: options.samples }
+        );
+
+        const mismatch = single.findIndex((value, index) => !Object.is(value, tiled[index]));
+        assert.equal(mismatch, -1, `First difference at pixel ${Math.floor(mismatch / 3)}`);
+    });
+}
@@ -0,0 +1,1621 @@
+import type { Scene, Ray, HitInfo, Color, SceneObject, Sphere, Plane, Triangle, Box, Cylinder, Cone, Disk, Torus, Capsule, CSG, Instance, Light, Material, PBRMaterial, AntialiasingSettings, RenderPass, Vec3, Tile, UV } from '../types/scene.types';
+import { Vector3 } from '../math/Vector3';
+import { traverseBVH, computeLocalBounds, type BVH } from './BVH';
+import { buildBasis, hashToUnit, sampleCosineHemisphere, samplePhongLobe } from '../math/sampling';
+import { renderRegion } from './antialiasing';
+import { lightFalloff, sampleLight } from './lights';
+import { sampleTexture } from './textures';
+import { getTransformMatrices } from './transforms';
+import { solveQuadratic, solveQuartic } from '../math/polynomial';
+import { evaluatePBR, fresnelSchlick, ggxSampleWeight, MIRROR_ROUGHNESS, roughnessToAlpha, sampleGGXHalfVector, specularColor } from './pbr';
+import { combineIntervals, pairCrossings, type Crossing, type Interval } from './csg';
+import { sampleEnvironment } from './environment';
+import { objectVelocity, shutterInterval } from './motion';
+
+// Rays per glossy PBR reflection at the first bounce
+const GLOSSY_SAMPLES = 16;
+const GOLDEN_RATIO_CONJUGATE = 0.618033988749895;
+
+// Limit for following a ray through a solid (a torus has at most four)
+const MAX_CROSSINGS = 16;
+
+// Decorrelate the lens and shutter samples from other hashes of the same position
+const LENS_SEED = 0x1e45;
+const SHUTTER_SEED = 0x5417;
+
+const WORLD_UP: Vec3 = { x: 0, y: 1, z: 0 };
+
+interface CameraBasis {
+    forward: Vector3;
+    right: Vector3;
+    up: Vector3;
+}
+
+export interface TracerOptions {
+    width: number;
+    height: number;
+    maxDepth: number;
+}
+
+/**
+ * The DOM-free rendering core: camera rays, intersection and shading. The main
+ * thread and the workers both render through this class, so they produce the
+ * same pixels for the same scene.
+ */
+export class Tracer {
+    private scene: Scene;
+    private bvh: BVH;
+    private width: number;
+    private height: number;
+    private maxDepth: number;
+    private forceUV: boolean = false;
+
+    constructor(scene: Scene, bvh: BVH, options: TracerOptions) {
+        this.scene = scene;
+        this.bvh = bvh;
+        this.width = options.width;
+        this.height = options.height;
+        this.maxDepth = options.maxDepth;
+    }
+
+    /**
+     * Whitted-style colors (linear RGB) for a region, with anti-aliasing, or
+     * the values of an auxiliary pass (see tracePass).
+     */
+    renderRegion(region: Tile, antialiasing: AntialiasingSettings, pass: RenderPass = 'beauty'): Float32Array {
+        // Object IDs must stay exact to serve as masks, so they are never filtered
+        const settings = pass === 'objectId' ? { ...antialiasing, samplesPerPixel: 1, adaptive: false } : antialiasing;
+
+        return renderRegion(this.width, this.height, region, settings, (x, y) => {
+            const ray = this.getRay(x, y);
+            if (!ray) return { r: 0, g: 0, b: 0 };
+            return pass === 'beauty' ? this.traceRay(ray, this.maxDepth) : this.tracePass(ray, pass);
+        });
+    }
+
+    /**
+     * Auxiliary pass for a camera ray, from its first hit; rays that miss give 0.
+     * depth: distance from the camera (along the view axis for perspective and
+     * orthographic cameras), normal: world-space normal facing the camera,
+     * albedo: surface color, objectId: position of the object in the scene file
+     * plus one, shadow: fraction of the light that is not blocked (1 = fully
+     * lit), reflection: what the Whitted tracer adds through reflections.
+     */
+    tracePass(ray: Ray, pass: RenderPass): Color {
+        const hit = this.findClosestIntersection(ray);
+        if (!hit.hit) return { r: 0, g: 0, b: 0 };
+
+        const gray = (value: number): Color => ({ r: value, g: value, b: value });
+
+        switch (pass) {
+            case 'depth': {
+                const camera = this.scene.camera;
+                const offset = Vector3.fromVec3(hit.point).subtract(Vector3.fromVec3(camera.position));
+                const projection = camera.projection ?? 'perspective';
+                if (projection !== 'perspective' && projection !== 'orthographic') return gray(offset.length());
+                return gray(offset.dot(this.cameraBasis(Vector3.fromVec3(camera.position)).forward));
+            }
+            case 'normal': {
+                const normal = Vector3.fromVec3(hit.normal);
+                const n = normal.dot(Vector3.fromVec3(ray.direction)) > 0 ? normal.multiply(-1) : normal;
+                return { r: n.x, g: n.y, b: n.z };
+            }
+            case 'albedo': {
+                const albedo = this.surfaceColor(hit);
+                return { r: albedo.r, g: albedo.g, b: albedo.b };
+            }
+            case 'objectId':
+                return gray((hit.objectIndex ?? 0) + 1);
+            case 'shadow':
+                return gray(this.lightVisibility(hit, ray));
+            case 'reflection':
+                return this.traceReflection(ray, hit, this.maxDepth);
+            default:
+                return this.traceRay(ray, this.maxDepth);
+        }
+    }
+
+    /**
+     * One path-traced sample per pixel of the region (linear RGB).
+     */
+    tracePathRegion(region: Tile): Float32Array {
+        const radiance = new Float32Array(region.width * region.height * 3);
+
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                // Jitter inside the pixel so the accumulated passes are anti-aliased
+                const ray = this.getRay(x + Math.random() - 0.5, y + Math.random() - 0.5);
+                const color = ray ? this.tracePath(ray) : { r: 0, g: 0, b: 0 };
+
+                const index = ((y - region.y) * region.width + (x - region.x)) * 3;
+                radiance[index] = color.r;
+                radiance[index + 1] = color.g;
+                radiance[index + 2] = color.b;
+            }
+        }
+
+        return radiance;
+    }
+
+    /**
+     * Camera ray through the continuous pixel position (x, y), or null where the
+     * projection covers no direction (outside the image circle of a fisheye).
+     */
+    getRay(x: number, y: number): Ray | null {
+        const camera = this.scene.camera;
+        const projection = camera.projection ?? 'perspective';
+        const aspectRatio = this.width / this.height;
+        const fovRadians = (camera.fov * Math.PI) / 180;
+
+        const ndcX = (x + 0.5) / this.width;
+        const ndcY = (y + 0.5) / this.height;
+
+        const screenX = 2 * ndcX - 1;
+        const screenY = 1 - 2 * ndcY;
+
+        const cameraPos = Vector3.fromVec3(camera.position);
+        const basis = this.cameraBasis(cameraPos);
+        const { forward, right, up } = basis;
+        let origin = cameraPos;
+        let rayDirection: Vector3;
+
+        switch (projection) {
+            case 'orthographic': {
+                const halfHeight = this.orthoHeight(cameraPos) / 2;
+                origin = cameraPos
+                    .add(right.multiply(screenX * aspectRatio * halfHeight))
+                    .add(up.multiply(screenY * halfHeight));
+                rayDirection = forward;
+                break;
+            }
+            case 'fisheye': {
+                // Equidistant: the angle to the view axis grows linearly with the distance from the center
+                const radius = Math.hypot(screenX * aspectRatio, screenY);
+                if (radius > 1) return null;
+                const theta = (radius * fovRadians) / 2;
+                const phi = Math.atan2(screenY, screenX * aspectRatio);
+                rayDirection = forward.multiply(Math.cos(theta))
+                    .add(right.multiply(Math.sin(theta) * Math.cos(phi)))
+                    .add(up.multiply(Math.sin(theta) * Math.sin(phi)));
+                break;
+            }
+            case 'equirectangular': {
+                // Full panorama: 360° of azimuth across, 180° of elevation down the image
+                const azimuth = screenX * Math.PI;
+                const elevation = (screenY * Math.PI) / 2;
+                rayDirection = forward.multiply(Math.cos(elevation) * Math.cos(azimuth))
+                    .add(right.multiply(Math.cos(elevation) * Math.sin(azimuth)))
+                    .add(up.multiply(Math.sin(elevation)));
+                break;
+            }
+            default: {
+                const cameraX = screenX * aspectRatio * Math.tan(fovRadians / 2);
+                const cameraY = screenY * Math.tan(fovRadians / 2);
+
+                rayDirection = forward
+                    .add(right.multiply(cameraX))
+                    .add(up.multiply(cameraY))
+                    .normalize();
+            }
+        }
+
+        const aperture = camera.aperture ?? 0;
+        const ray: Ray = aperture > 0 && (projection === 'perspective' || projection === 'orthographic')
+            ? this.thinLensRay(x, y, origin, rayDirection, basis, aperture)
+            : { origin: origin.toVec3(), direction: rayDirection.toVec3() };
+
+        // Motion blur: like the lens point, the moment is hashed from the sample
+        // position, so the samples of a pixel see moving objects in different places
+        const shutter = shutterInterval(camera);
+        if (shutter.open !== 0 || shutter.close > shutter.open) {
+            const u = hashToUnit(Math.floor(x * 4096), Math.floor(y * 4096), SHUTTER_SEED);
+            ray.time = shutter.open + (shutter.close - shutter.open) * u;
+        }
+
+        return ray;
+    }
+
+    /**
+     * Orthonormal camera frame. When the view direction is parallel to the up
+     * vector, the image's up direction falls back to world -z (or +y), so
+     * looking straight up or down still gives a valid image.
+     */
+    private cameraBasis(cameraPos: Vector3): CameraBasis {
+        const camera = this.scene.camera;
+        const forward = Vector3.fromVec3(camera.target).subtract(cameraPos).normalize();
+        let right = forward.cross(Vector3.fromVec3(camera.up ?? WORLD_UP).normalize());
+
+        if (right.length() < 1e-6) {
+            right = forward.cross(Math.abs(forward.y) < 0.9 ? new Vector3(0, 1, 0) : new Vector3(0, 0, -1));
+        }
+        right = right.normalize();
+        const up = right.cross(forward).normalize();
+
+        return { forward, right, up };
+    }
+
+    /**
+     * Height of the orthographic view; by default what the perspective camera
+     * sees at the distance of the target.
+     */
+    private orthoHeight(cameraPos: Vector3): number {
+        const camera = this.scene.camera;
+        if (camera.orthoHeight) return camera.orthoHeight;
+        const distance = Vector3.fromVec3(camera.target).subtract(cameraPos).length();
+        return 2 * distance * Math.tan((camera.fov * Math.PI) / 360);
+    }
+
+    /**
+     * Depth of field: the ray starts on a point of the lens and passes through
+     * the point the pinhole ray reaches on the plane of focus. The lens point is
+     * hashed from the sample position, so every anti-aliasing sample (and every
+     * jittered path-tracing pass) sees the scene through a different part of
+     * the lens, while renders stay reproducible.
+     */
+    private thinLensRay(x: number, y: number, center: Vector3, direction: Vector3, basis: CameraBasis, aperture: number): Ray {
+        const camera = this.scene.camera;
+        const { forward, right, up } = basis;
+        const focusDistance = camera.focusDistance
+            ?? Vector3.fromVec3(camera.focusPoint ?? camera.target).subtract(Vector3.fromVec3(camera.position)).dot(forward);
+        const focus = center.add(direction.multiply(focusDistance / direction.dot(forward)));
+
+        const s = hashToUnit(Math.floor(x * 4096), Math.floor(y * 4096), LENS_SEED);
+        const t = hashToUnit(Math.floor(y * 4096), Math.floor(x * 4096), LENS_SEED);
+        const r = (aperture / 2) * Math.sqrt(s);
+        const phi = 2 * Math.PI * t;
+        const origin = center.add(right.multiply(r * Math.cos(phi))).add(up.multiply(r * Math.sin(phi)));
+
+        return {
+            origin: origin.toVec3(),
+            direction: focus.subtract(origin).normalize().toVec3()
+        };
+    }
+
+    traceRay(ray: Ray, depth: number): Color {
+        if (depth <= 0) return { r: 0, g: 0, b: 0 };
+
+        const hit = this.findClosestIntersection(ray);
+
+        if (!hit.hit) {
+            return sampleEnvironment(this.scene, ray.direction);
+        }
+
+        const emission = hit.material.emission;
+        let color = emission ? { r: emission.r, g: emission.g, b: emission.b } : { r: 0, g: 0, b: 0 };
+
+        const ambient = this.scene.ambient;
+        if (ambient) {
+            const albedo = this.surfaceColor(hit);
+            // Metals have no diffuse part; they pick up their surroundings through reflections
+            const diffuse = hit.material.type === 'pbr' ? 1 - hit.material.metallic : 1;
+            color.r += ambient.r * albedo.r * diffuse;
+            color.g += ambient.g * albedo.g * diffuse;
+            color.b += ambient.b * albedo.b * diffuse;
+        }
+
+        for (const light of this.scene.lights) {
+            const lightColor = this.calculateLighting(hit, light, ray);
+            color.r += lightColor.r;
+            color.g += lightColor.g;
+            color.b += lightColor.b;
+        }
+
+        if (depth > 1) {
+            // Phong reflections blend over the local color, PBR reflections add to it
+            const keep = hit.material.type === 'pbr' ? 1 : 1 - hit.material.reflectivity;
+            const reflectedColor = this.traceReflection(ray, hit, depth);
+            color.r = color.r * keep + reflectedColor.r;
+            color.g = color.g * keep + reflectedColor.g;
+            color.b = color.b * keep + reflectedColor.b;
+        }
+
+        const transparency = hit.material.transparency ?? 0;
+        if (transparency > 0 && depth > 1) {
+            const transmittedColor = this.traceTransmission(ray, hit, depth);
+
+            color.r = color.r * (1 - transparency) + transmittedColor.r * transparency;
+            color.g = color.g * (1 - transparency) + transmittedColor.g * transparency;
+            color.b = color.b * (1 - transparency) + transmittedColor.b * transparency;
+        }
+
+        return color;
+    }
+
+    /**
+     * Reflected light at a hit, already weighted by the reflectivity (Phong) or
+     * the Fresnel term (PBR).
+     */
+    private traceReflection(ray: Ray, hit: HitInfo, depth: number): Color {
+        if (hit.material.type === 'pbr') {
+            return this.tracePBRReflection(ray, hit, depth);
+        }
+
+        const reflectivity = hit.material.reflectivity;
+        if (reflectivity <= 0) return { r: 0, g: 0, b: 0 };
+
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const normal = Vector3.fromVec3(hit.normal);
+        const reflected = rayDir.reflect(normal).normalize();
+
+        const reflectionRay: Ray = {
+            origin: hit.point,
+            direction: reflected.toVec3(),
+            time: ray.time
+        };
+
+        const reflectedColor = this.traceRay(reflectionRay, depth - 1);
+        return {
+            r: reflectedColor.r * reflectivity,
+            g: reflectedColor.g * reflectivity,
+            b: reflectedColor.b * reflectivity
+        };
+    }
+
+    /**
+     * Glossy reflection of a PBR surface, averaged over GGX-sampled rays. Only
+     * the first bounce is sampled several times, so the ray count stays linear
+     * in the depth. The samples are seeded by the hit point, which keeps
+     * renders reproducible.
+     */
+    private tracePBRReflection(ray: Ray, hit: HitInfo, depth: number): Color {
+        const material = hit.material as PBRMaterial;
+        const hitPoint = Vector3.fromVec3(hit.point);
+        const viewDir = Vector3.fromVec3(ray.direction).multiply(-1).normalize();
+        let normal = Vector3.fromVec3(hit.normal);
+        if (normal.dot(viewDir) < 0) normal = normal.multiply(-1);
+
+        const f0 = specularColor(material, this.surfaceColor(hit));
+        const mirror = material.roughness < MIRROR_ROUGHNESS;
+        const alpha = roughnessToAlpha(material.roughness);
+        const samples = mirror || depth < this.maxDepth ? 1 : GLOSSY_SAMPLES;
+        const seed = [Math.floor(hit.point.x * 4096), Math.floor(hit.point.y * 4096), Math.floor(hit.point.z * 4096)];
+        const color = { r: 0, g: 0, b: 0 };
+
+        // Stratified over the lobe's elevation, with a rotating azimuth
+        const offset = hashToUnit(seed[0], seed[1], seed[2]);
+        const rotation = hashToUnit(seed[2], seed[0], seed[1]);
+
+        for (let i = 0; i < samples; i++) {
+            const u1 = (i + offset) / samples;
+            const u2 = (rotation + i * GOLDEN_RATIO_CONJUGATE) % 1;
+            const half = mirror ? normal : sampleGGXHalfVector(normal, alpha, u1, u2);
+            const direction = viewDir.multiply(-1).reflect(half).normalize();
+            if (direction.dot(normal) <= 0) continue;
+
+            const weight = mirror
+                ? fresnelSchlick(f0, normal.dot(viewDir))
+                : ggxSampleWeight(f0, alpha, normal, viewDir, direction, half);
+            const reflectedColor = this.traceRay({
+                origin: hitPoint.add(normal.multiply(0.001)).toVec3(),
+                direction: direction.toVec3(),
+                time: ray.time
+            }, depth - 1);
+
+            color.r += reflectedColor.r * weight.r / samples;
+            color.g += reflectedColor.g * weight.g / samples;
+            color.b += reflectedColor.b * weight.b / samples;
+        }
+
+        return color;
+    }
+
+    private traceTransmission(ray: Ray, hit: HitInfo, depth: number): Color {
+        const rayDir = Vector3.fromVec3(ray.direction).normalize();
+        const hitPoint = Vector3.fromVec3(hit.point);
+        let normal = Vector3.fromVec3(hit.normal);
+        const ior = hit.material.ior ?? 1.5;
+
+        // Flip the normal when the ray leaves the object
+        let eta = 1 / ior;
+        if (rayDir.dot(normal) > 0) {
+            normal = normal.multiply(-1);
+            eta = ior;
+        }
+
+        const reflectionRay: Ray = {
+            origin: hitPoint.add(normal.multiply(0.001)).toVec3(),
+            direction: rayDir.reflect(normal).normalize().toVec3(),
+            time: ray.time
+        };
+        const reflectedColor = this.traceRay(reflectionRay, depth - 1);
+
+        const refracted = rayDir.refract(normal, eta);
+        if (!refracted) {
+            // Total internal reflection
+            return reflectedColor;
+        }
+
+        const kr = this.fresnelReflectance(-rayDir.dot(normal), eta, ior);
+
+        const refractionRay: Ray = {
+            origin: hitPoint.subtract(normal.multiply(0.001)).toVec3(),
+            direction: refracted.normalize().toVec3(),
+            time: ray.time
+        };
+        const refractedColor = this.traceRay(refractionRay, depth - 1);
+
+        return {
+            r: reflectedColor.r * kr + refractedColor.r * (1 - kr),
+            g: reflectedColor.g * kr + refractedColor.g * (1 - kr),
+            b: reflectedColor.b * kr + refractedColor.b * (1 - kr)
+        };
+    }
+
+    private fresnelReflectance(cosI: number, eta: number, ior: number): number {
+        // Schlick's approximation, using the transmitted angle when leaving the denser medium
+        const cosTheta = eta > 1 ? Math.sqrt(Math.max(0, 1 - eta * eta * (1 - cosI * cosI))) : cosI;
+        const r0 = ((1 - ior) / (1 + ior)) ** 2;
+        return r0 + (1 - r0) * Math.pow(1 - cosTheta, 5);
+    }
+
+    tracePath(ray: Ray): Color {
+        const radiance = { r: 0, g: 0, b: 0 };
+        const throughput = { r: 1, g: 1, b: 1 };
+        let currentRay = ray;
+
+        for (let bounce = 0; bounce < this.maxDepth; bounce++) {
+            const hit = this.findClosestIntersection(currentRay);
+
+            if (!hit.hit) {
+                // The environment lights the scene; the ambient term is not needed here
+                const environment = sampleEnvironment(this.scene, currentRay.direction);
+                radiance.r += throughput.r * environment.r;
+                radiance.g += throughput.g * environment.g;
+                radiance.b += throughput.b * environment.b;
+                break;
+            }
+
+            const material = hit.material;
+            if (material.emission) {
+                radiance.r += throughput.r * material.emission.r;
+                radiance.g += throughput.g * material.emission.g;
+                radiance.b += throughput.b * material.emission.b;
+            }
+
+            const transparency = material.transparency ?? 0;
+            // PBR surfaces sample their own lobes; their direct light already contains the specular part
+            const reflectivity = material.type === 'pbr' ? 0 : material.reflectivity;
+            const specularWeight = reflectivity * (1 - transparency);
+            const diffuseWeight = (1 - reflectivity) * (1 - transparency);
+
+            // Point lights can never be hit by a sampled ray, so sample them directly
+            if (diffuseWeight > 0) {
+                for (const light of this.scene.lights) {
+                    const lightColor = this.calculateLighting(hit, light, currentRay);
+                    radiance.r += throughput.r * lightColor.r * diffuseWeight;
+                    radiance.g += throughput.g * lightColor.g * diffuseWeight;
+                    radiance.b += throughput.b * lightColor.b * diffuseWeight;
+                }
+            }
+
+            // Russian roulette: terminate dim paths early without biasing the estimate
+            if (bounce >= 3) {
+                const survival = Math.min(0.95, Math.max(throughput.r, throughput.g, throughput.b));
+                if (Math.random() >= survival) break;
+                throughput.r /= survival;
+                throughput.g /= survival;
+                throughput.b /= survival;
+            }
+
+            const scattered = this.sampleBsdf(currentRay, hit, transparency, specularWeight);
+            if (!scattered) break;
+
+            throughput.r *= scattered.weight.r;
+            throughput.g *= scattered.weight.g;
+            throughput.b *= scattered.weight.b;
+            // The whole path happens at the moment of the camera ray
+            currentRay = { ...scattered.ray, time: ray.time };
+        }
+
+        return radiance;
+    }
+
+    private sampleBsdf(ray: Ray, hit: HitInfo, transparency: number, specularWeight: number): { ray: Ray; weight: Color } | null {
+        // Picks one lobe with the probability of its blend weight, so the weight is just the lobe albedo
+        const rayDir = Vector3.fromVec3(ray.direction).normalize();
+        const hitPoint = Vector3.fromVec3(hit.point);
+        let normal = Vector3.fromVec3(hit.normal);
+        const white = { r: 1, g: 1, b: 1 };
+        const choice = Math.random();
+
+        if (choice < transparency) {
+            const ior = hit.material.ior ?? 1.5;
+            let eta = 1 / ior;
+            if (rayDir.dot(normal) > 0) {
+                normal = normal.multiply(-1);
+                eta = ior;
+            }
+
+            const refracted = rayDir.refract(normal, eta);
+            const kr = refracted ? this.fresnelReflectance(-rayDir.dot(normal), eta, ior) : 1;
+
+            if (!refracted || Math.random() < kr) {
+                return {
+                    ray: {
+                        origin: hitPoint.add(normal.multiply(0.001)).toVec3(),
+                        direction: rayDir.reflect(normal).normalize().toVec3()
+                    },
+                    weight: white
+                };
+            }
+
+            return {
+                ray: {
+                    origin: hitPoint.subtract(normal.multiply(0.001)).toVec3(),
+                    direction: refracted.normalize().toVec3()
+                },
+                weight: white
+            };
+        }
+
+        // Opaque surfaces scatter back to the side the ray came from
+        if (rayDir.dot(normal) > 0) normal = normal.multiply(-1);
+        const origin = hitPoint.add(normal.multiply(0.001)).toVec3();
+
+        if (hit.material.type === 'pbr') {
+            return this.samplePBR(rayDir, normal, origin, hit);
+        }
+
+        if (choice < transparency + specularWeight) {
+            const mirror = rayDir.reflect(normal).normalize();
+            const direction = samplePhongLobe(mirror, hit.material.shininess);
+            if (direction.dot(normal) <= 0) return null;
+            return { ray: { origin, direction: direction.toVec3() }, weight: white };
+        }
+
+        return {
+            ray: { origin, direction: sampleCosineHemisphere(normal).toVec3() },
+            weight: this.surfaceColor(hit)
+        };
+    }
+
+    /**
+     * Picks the GGX or the diffuse lobe in proportion to their estimated
+     * energy and returns the sample weight for the chosen one.
+     */
+    private samplePBR(rayDir: Vector3, normal: Vector3, origin: Vec3, hit: HitInfo): { ray: Ray; weight: Color } | null {
+        const material = hit.material as PBRMaterial;
+        const baseColor = this.surfaceColor(hit);
+        const viewDir = rayDir.multiply(-1);
+        const f0 = specularColor(material, baseColor);
+        const fresnel = fresnelSchlick(f0, normal.dot(viewDir));
+
+        const specularEnergy = (fresnel.r + fresnel.g + fresnel.b) / 3;
+        const diffuseEnergy = (1 - specularEnergy) * (1 - material.metallic) * (baseColor.r + baseColor.g + baseColor.b) / 3;
+        const specularProbability = diffuseEnergy > 0
+            ? Math.min(0.95, Math.max(0.05, specularEnergy / (specularEnergy + diffuseEnergy)))
+            : 1;
+
+        if (Math.random() < specularProbability) {
+            const alpha = roughnessToAlpha(material.roughness);
+            const half = sampleGGXHalfVector(normal, alpha, Math.random(), Math.random());
+            const direction = rayDir.reflect(half).normalize();
+            if (direction.dot(normal) <= 0) return null;
+
+            const weight = ggxSampleWeight(f0, alpha, normal, viewDir, direction, half);
+            return {
+                ray: { origin, direction: direction.toVec3() },
+                weight: {
+                    r: weight.r / specularProbability,
+                    g: weight.g / specularProbability,
+                    b: weight.b / specularProbability
+                }
+            };
+        }
+
+        const diffuseScale = (1 - material.metallic) / (1 - specularProbability);
+        return {
+            ray: { origin, direction: sampleCosineHemisphere(normal.toVec3()).toVec3() },
+            weight: {
+                r: baseColor.r * (1 - fresnel.r) * diffuseScale,
+                g: baseColor.g * (1 - fresnel.g) * diffuseScale,
+                b: baseColor.b * (1 - fresnel.b) * diffuseScale
+            }
+        };
+    }
+
+    private needsUV(material: Material): boolean {
+        return this.forceUV || !!material.texture;
+    }
+
+    private surfaceColor(hit: HitInfo): Color {
+        const texture = hit.material.texture;
+        if (texture && hit.uv) return sampleTexture(texture, hit.uv);
+        return hit.material.type === 'pbr' ? hit.material.baseColor : hit.material.color;
+    }
+
+    private findClosestIntersection(ray: Ray): HitInfo {
+        let closestHit: HitInfo = {
+            hit: false,
+            distance: Infinity,
+            point: { x: 0, y: 0, z: 0 },
+            normal: { x: 0, y: 0, z: 0 },
+            material: { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 }
+        };
+
+        let closestIndex = -1;
+        traverseBVH(this.bvh, ray, Infinity, (index) => {
+            const hit = this.intersectObject(ray, this.scene.objects[index]);
+            if (hit.hit && hit.distance < closestHit.distance) {
+                closestHit = hit;
+                closestIndex = index;
+            }
+            return closestHit.distance;
+        });
+
+        if (closestIndex >= 0) {
+            closestHit.objectIndex = this.scene.objectIndices?.[closestIndex] ?? closestIndex;
+        }
+        return closestHit;
+    }
+
+    private countShadowOccluders(shadowRay: Ray, maxDistance: number): number {
+        // Any-hit query: -1 as soon as an opaque object blocks the light,
+        // otherwise the number of transparent objects in between
+        let transparentHits = 0;
+
+        traverseBVH(this.bvh, shadowRay, maxDistance, (index) => {
+            const hit = this.intersectObject(shadowRay, this.scene.objects[index]);
+            if (hit.hit && hit.distance < maxDistance) {
+                if ((hit.material.transparency ?? 0) <= 0) {
+                    transparentHits = -1;
+                    return -1;
+                }
+                transparentHits++;
+            }
+            return maxDistance;
+        });
+
+        return transparentHits;
+    }
+
+    private intersectObject(ray: Ray, obj: SceneObject): HitInfo {
+        const offset = this.motionOffset(ray, obj);
+        if (!offset) return this.intersectPlaced(ray, obj);
+
+        // Moving the ray back is the same as moving the object forward
+        const hit = this.intersectPlaced({ ...ray, origin: Vector3.fromVec3(ray.origin).subtract(offset).toVec3() }, obj);
+        if (!hit.hit) return hit;
+        return { ...hit, point: Vector3.fromVec3(hit.point).add(offset).toVec3() };
+    }
+
+    /**
+     * How far a moving object has traveled at the ray's moment, or null if it
+     * is where the scene places it.
+     */
+    private motionOffset(ray: Ray, obj: SceneObject): Vector3 | null {
+        const velocity = objectVelocity(obj);
+        if (!velocity || !ray.time) return null;
+        return Vector3.fromVec3(velocity).multiply(ray.time);
+    }
+
+    private intersectPlaced(ray: Ray, obj: SceneObject): HitInfo {
+        if (!obj.transform) {
+            return this.intersectLocal(ray, obj);
+        }
+
+        // Intersect in object space; the direction is not renormalized, so the
+        // ray parameter (and with it the hit distance) stays the same
+        const { inverse, normalMatrix } = getTransformMatrices(obj.transform);
+        const hit = this.intersectLocal({
+            origin: inverse.transformPoint(ray.origin),
+            direction: inverse.transformDirection(ray.direction),
+            time: ray.time
+        }, obj);
+
+        if (!hit.hit) return hit;
+
+        const origin = Vector3.fromVec3(ray.origin);
+        const direction = Vector3.fromVec3(ray.direction);
+        return {
+            ...hit,
+            point: origin.add(direction.multiply(hit.distance)).toVec3(),
+            normal: Vector3.fromVec3(normalMatrix.transformDirection(hit.normal)).normalize().toVec3()
+        };
+    }
+
+    private intersectLocal(ray: Ray, obj: SceneObject): HitInfo {
+        switch (obj.type) {
+            case 'sphere':
+                return this.intersectSphere(ray, obj);
+            case 'plane':
+                return this.intersectPlane(ray, obj);
+            case 'triangle':
+                return this.intersectTriangle(ray, obj);
+            case 'box':
+                return this.intersectBox(ray, obj);
+            case 'cylinder':
+                return this.intersectCylinder(ray, obj);
+            case 'cone':
+                return this.intersectCone(ray, obj);
+            case 'disk':
+                return this.intersectDisk(ray, obj);
+            case 'torus':
+                return this.intersectTorus(ray, obj);
+            case 'capsule':
+                return this.intersectCapsule(ray, obj);
+            case 'csg':
+                return this.intersectCSG(ray, obj);
+            case 'instance':
+                return this.intersectInstance(ray, obj);
+            default:
+                return {
+                    hit: false,
+                    distance: Infinity,
+                    point: { x: 0, y: 0, z: 0 },
+                    normal: { x: 0, y: 0, z: 0 },
+                    material: { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 }
+                };
+        }
+    }
+
+    private intersectInstance(ray: Ray, instance: Instance): HitInfo {
+        const objects = this.scene.definitions?.[instance.ref] ?? [];
+        const bvh = this.bvh.definitions?.[instance.ref];
+        let closestHit: HitInfo = {
+            hit: false,
+            distance: Infinity,
+            point: { x: 0, y: 0, z: 0 },
+            normal: { x: 0, y: 0, z: 0 },
+            material: instance.material ?? { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 }
+        };
+        if (!bvh) return closestHit;
+
+        // A textured override needs UVs even where the referenced materials have no texture
+        const previousForceUV = this.forceUV;
+        this.forceUV = previousForceUV || !!instance.material?.texture;
+
+        traverseBVH(bvh, ray, Infinity, (index) => {
+            const hit = this.intersectObject(ray, objects[index]);
+            if (hit.hit && hit.distance < closestHit.distance) {
+                closestHit = hit;
+            }
+            return closestHit.distance;
+        });
+
+        this.forceUV = previousForceUV;
+
+        if (closestHit.hit && instance.material) {
+            closestHit = { ...closestHit, material: instance.material };
+        }
+
+        return closestHit;
+    }
+
+    private intersectSphere(ray: Ray, sphere: Sphere): HitInfo {
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const center = Vector3.fromVec3(sphere.center);
+
+        const oc = rayOrigin.subtract(center);
+        const a = rayDir.dot(rayDir);
+        const b = 2 * oc.dot(rayDir);
+        const c = oc.dot(oc) - sphere.radius * sphere.radius;
+
+        const discriminant = b * b - 4 * a * c;
+
+        if (discriminant < 0) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: sphere.material
+            };
+        }
+
+        const t1 = (-b - Math.sqrt(discriminant)) / (2 * a);
+        const t2 = (-b + Math.sqrt(discriminant)) / (2 * a);
+
+        const t = t1 > 0.001 ? t1 : (t2 > 0.001 ? t2 : -1);
+
+        if (t < 0.001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: sphere.material
+            };
+        }
+
+        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+        const normal = hitPoint.subtract(center).normalize();
+
+        return {
+            hit: true,
+            distance: t,
+            point: hitPoint.toVec3(),
+            normal: normal.toVec3(),
+            material: sphere.material,
+            uv: this.needsUV(sphere.material) ? sphericalUV(normal) : undefined
+        };
+    }
+
+    private intersectPlane(ray: Ray, plane: Plane): HitInfo {
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const normal = Vector3.fromVec3(plane.normal).normalize();
+
+        const denom = normal.dot(rayDir);
+        if (Math.abs(denom) < 0.0001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: plane.material
+            };
+        }
+
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const planePoint = Vector3.fromVec3(plane.point);
+        const t = planePoint.subtract(rayOrigin).dot(normal) / denom;
+
+        if (t < 0.001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: plane.material
+            };
+        }
+
+        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+
+        let uv: UV | undefined;
+        if (this.needsUV(plane.material)) {
+            // Planar mapping in scene units along two tangents of the plane
+            const [tangent, bitangent] = buildBasis(normal);
+            const offset = hitPoint.subtract(planePoint);
+            uv = { u: offset.dot(tangent), v: offset.dot(bitangent) };
+        }
+
+        return {
+            hit: true,
+            distance: t,
+            point: hitPoint.toVec3(),
+            normal: normal.toVec3(),
+            material: plane.material,
+            uv
+        };
+    }
+
+    private intersectTriangle(ray: Ray, triangle: Triangle): HitInfo {
+        // Möller-Trumbore intersection algorithm
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const v0 = Vector3.fromVec3(triangle.v0);
+        const v1 = Vector3.fromVec3(triangle.v1);
+        const v2 = Vector3.fromVec3(triangle.v2);
+
+        const edge1 = v1.subtract(v0);
+        const edge2 = v2.subtract(v0);
+        const h = rayDir.cross(edge2);
+        const a = edge1.dot(h);
+
+        if (Math.abs(a) < 0.0001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: triangle.material
+            };
+        }
+
+        const f = 1.0 / a;
+        const s = rayOrigin.subtract(v0);
+        const u = f * s.dot(h);
+
+        if (u < 0.0 || u > 1.0) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: triangle.material
+            };
+        }
+
+        const q = s.cross(edge1);
+        const v = f * rayDir.dot(q);
+
+        if (v < 0.0 || u + v > 1.0) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: triangle.material
+            };
+        }
+
+        const t = f * edge2.dot(q);
+
+        if (t < 0.001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: triangle.material
+            };
+        }
+
+        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+        let normal = edge1.cross(edge2).normalize();
+
+        if (triangle.n0 && triangle.n1 && triangle.n2) {
+            // Interpolate vertex normals with the barycentric coordinates
+            normal = Vector3.fromVec3(triangle.n0).multiply(1 - u - v)
+                .add(Vector3.fromVec3(triangle.n1).multiply(u))
+                .add(Vector3.fromVec3(triangle.n2).multiply(v))
+                .normalize();
+        }
+
+        let uv: UV | undefined;
+        if (this.needsUV(triangle.material)) {
+            // Barycentric coordinates, or the interpolated vertex UVs when given
+            uv = triangle.uv0 && triangle.uv1 && triangle.uv2
+                ? {
+                    u: triangle.uv0.u * (1 - u - v) + triangle.uv1.u * u + triangle.uv2.u * v,
+                    v: triangle.uv0.v * (1 - u - v) + triangle.uv1.v * u + triangle.uv2.v * v
+                }
+                : { u, v };
+        }
+
+        return {
+            hit: true,
+            distance: t,
+            point: hitPoint.toVec3(),
+            normal: normal.toVec3(),
+            material: triangle.material,
+            uv
+        };
+    }
+
+    private intersectBox(ray: Ray, box: Box): HitInfo {
+        // Slab method for axis-aligned bounding box
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const min = Vector3.fromVec3(box.min);
+        const max = Vector3.fromVec3(box.max);
+
+        const invDirX = 1.0 / rayDir.x;
+        const invDirY = 1.0 / rayDir.y;
+        const invDirZ = 1.0 / rayDir.z;
+
+        const t1 = (min.x - rayOrigin.x) * invDirX;
+        const t2 = (max.x - rayOrigin.x) * invDirX;
+        const t3 = (min.y - rayOrigin.y) * invDirY;
+        const t4 = (max.y - rayOrigin.y) * invDirY;
+        const t5 = (min.z - rayOrigin.z) * invDirZ;
+        const t6 = (max.z - rayOrigin.z) * invDirZ;
+
+        const tmin = Math.max(Math.max(Math.min(t1, t2), Math.min(t3, t4)), Math.min(t5, t6));
+        const tmax = Math.min(Math.min(Math.max(t1, t2), Math.max(t3, t4)), Math.max(t5, t6));
+
+        // From inside the box (e.g. a refracted ray) the exit face is hit
+        const t = tmin > 0.001 ? tmin : tmax;
+
+        if (tmin > tmax || t < 0.001) {
+            return {
+                hit: false,
+                distance: Infinity,
+                point: { x: 0, y: 0, z: 0 },
+                normal: { x: 0, y: 0, z: 0 },
+                material: box.material
+            };
+        }
+
+        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+        const { normal, uv } = boxSurface(box, hitPoint);
+
+        return {
+            hit: true,
+            distance: t,
+            point: hitPoint.toVec3(),
+            normal: normal.toVec3(),
+            material: box.material,
+            uv: this.needsUV(box.material) ? uv : undefined
+        };
+    }
+
+    private intersectCylinder(ray: Ray, cylinder: Cylinder): HitInfo {
+        return this.intersectConical(ray, cylinder, cylinder.radius, cylinder.radius, cylinder.capped ?? true);
+    }
+
+    private intersectCone(ray: Ray, cone: Cone): HitInfo {
+        return this.intersectConical(ray, cone, cone.radius, cone.topRadius ?? 0, cone.capped ?? true);
+    }
+
+    /**
+     * Cylinders and (truncated) cones, in a frame where the axis runs along z
+     * from the base (z = 0) to the top (z = height).
+     */
+    private intersectConical(ray: Ray, obj: Cylinder | Cone, baseRadius: number, topRadius: number, capped: boolean): HitInfo {
+        const frame = createAxisFrame(obj.base, obj.top);
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const o = toFrame(frame, rayOrigin.subtract(frame.origin));
+        const d = toFrame(frame, rayDir);
+        const height = frame.height;
+
+        // Radius grows linearly along the axis: x² + y² = (baseRadius + slope·z)²
+        const slope = (topRadius - baseRadius) / height;
+        const radiusAtOrigin = baseRadius + slope * o.z;
+        let t = Infinity;
+        let part: 'side' | 'base' | 'top' = 'side';
+
+        const roots = solveQuadratic(
+            d.x * d.x + d.y * d.y - slope * slope * d.z * d.z,
+            2 * (o.x * d.x + o.y * d.y - slope * radiusAtOrigin * d.z),
+            o.x * o.x + o.y * o.y - radiusAtOrigin * radiusAtOrigin
+        );
+        for (const root of roots) {
+            const z = o.z + root * d.z;
+            if (root > 0.001 && z >= 0 && z <= height) {
+                t = root;
+                break;
+            }
+        }
+
+        if (capped) {
+            for (const [cap, z, radius] of [['base', 0, baseRadius], ['top', height, topRadius]] as const) {
+                if (radius <= 0 || Math.abs(d.z) < 1e-12) continue;
+                const tCap = (z - o.z) / d.z;
+                const x = o.x + tCap * d.x;
+                const y = o.y + tCap * d.y;
+                if (tCap > 0.001 && tCap < t && x * x + y * y <= radius * radius) {
+                    t = tCap;
+                    part = cap;
+                }
+            }
+        }
+
+        if (t === Infinity) return noHit(obj.material);
+
+        const local = o.add(d.multiply(t));
+        let normal: Vector3;
+        let uv: UV | undefined;
+        if (part === 'side') {
+            normal = new Vector3(local.x, local.y, -slope * (baseRadius + slope * local.z)).normalize();
+            uv = { u: 0.5 + Math.atan2(local.y, local.x) / (2 * Math.PI), v: local.z / height };
+        } else {
+            const radius = part === 'base' ? baseRadius : topRadius;
+            normal = new Vector3(0, 0, part === 'base' ? -1 : 1);
+            uv = { u: 0.5 + local.x / (2 * radius), v: 0.5 + local.y / (2 * radius) };
+        }
+
+        // An open tube has no inside, so its wall faces the incoming ray
+        if (!capped && normal.dot(d) > 0) normal = normal.multiply(-1);
+
+        return {
+            hit: true,
+            distance: t,
+            point: rayOrigin.add(rayDir.multiply(t)).toVec3(),
+            normal: fromFrame(frame, normal).toVec3(),
+            material: obj.material,
+            uv: this.needsUV(obj.material) ? uv : undefined
+        };
+    }
+
+    private intersectDisk(ray: Ray, disk: Disk): HitInfo {
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        let normal = Vector3.fromVec3(disk.normal).normalize();
+
+        const denom = normal.dot(rayDir);
+        if (Math.abs(denom) < 0.0001) return noHit(disk.material);
+
+        const center = Vector3.fromVec3(disk.center);
+        const t = center.subtract(rayOrigin).dot(normal) / denom;
+        if (t < 0.001) return noHit(disk.material);
+
+        const hitPoint = rayOrigin.add(rayDir.multiply(t));
+        const offset = hitPoint.subtract(center);
+        const distanceSquared = offset.dot(offset);
+        const innerRadius = disk.innerRadius ?? 0;
+        if (distanceSquared > disk.radius * disk.radius || distanceSquared < innerRadius * innerRadius) {
+            return noHit(disk.material);
+        }
+
+        let uv: UV | undefined;
+        if (this.needsUV(disk.material)) {
+            // Planar mapping, the disk covers 0-1
+            const [tangent, bitangent] = buildBasis(normal);
+            uv = {
+                u: 0.5 + offset.dot(tangent) / (2 * disk.radius),
+                v: 0.5 + offset.dot(bitangent) / (2 * disk.radius)
+            };
+        }
+
+        // A disk has no inside, so it faces the incoming ray
+        if (denom > 0) normal = normal.multiply(-1);
+
+        return {
+            hit: true,
+            distance: t,
+            point: hitPoint.toVec3(),
+            normal: normal.toVec3(),
+            material: disk.material,
+            uv
+        };
+    }
+
+    private intersectTorus(ray: Ray, torus: Torus): HitInfo {
+        const axis = torus.axis ?? { x: 0, y: 1, z: 0 };
+        const center = Vector3.fromVec3(torus.center);
+        const frame = createAxisFrame(torus.center, center.add(Vector3.fromVec3(axis).normalize()).toVec3());
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const R = torus.majorRadius;
+        const r = torus.minorRadius;
+
+        // Solve with a unit direction and scale back, since transforms may stretch it
+        const direction = toFrame(frame, rayDir);
+        const length = direction.length();
+        const d = direction.multiply(1 / length);
+        let o = toFrame(frame, rayOrigin.subtract(center));
+
+        // Start at the bounding sphere, which keeps the quartic's coefficients small
+        const b = o.dot(d);
+        const c = o.dot(o) - (R + r) * (R + r);
+        const discriminant = b * b - c;
+        if (discriminant < 0) return noHit(torus.material);
+        const start = Math.max(0, -b - Math.sqrt(discriminant));
+        o = o.add(d.multiply(start));
+
+        // (|p|² + R² - r²)² = 4R²(x² + y²) along p = o + s·d
+        const f = o.dot(d);
+        const k = o.dot(o) + R * R - r * r;
+        const roots = solveQuartic(
+            1,
+            4 * f,
+            4 * f * f + 2 * k - 4 * R * R * (d.x * d.x + d.y * d.y),
+            4 * f * k - 8 * R * R * (o.x * d.x + o.y * d.y),
+            k * k - 4 * R * R * (o.x * o.x + o.y * o.y)
+        );
+
+        const s = roots.find(root => (start + root) / length > 0.001);
+        if (s === undefined) return noHit(torus.material);
+
+        const t = (start + s) / length;
+        const local = o.add(d.multiply(s));
+        const sum = local.dot(local) + R * R - r * r;
+        const normal = new Vector3(local.x * (sum - 2 * R * R), local.y * (sum - 2 * R * R), local.z * sum).normalize();
+
+        return {
+            hit: true,
+            distance: t,
+            point: rayOrigin.add(rayDir.multiply(t)).toVec3(),
+            normal: fromFrame(frame, normal).toVec3(),
+            material: torus.material,
+            // Angle around the axis and angle around the tube
+            uv: this.needsUV(torus.material) ? {
+                u: 0.5 + Math.atan2(local.y, local.x) / (2 * Math.PI),
+                v: 0.5 + Math.atan2(local.z, Math.sqrt(local.x * local.x + local.y * local.y) - R) / (2 * Math.PI)
+            } : undefined
+        };
+    }
+
+    private intersectCapsule(ray: Ray, capsule: Capsule): HitInfo {
+        const frame = createAxisFrame(capsule.base, capsule.top);
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const o = toFrame(frame, rayOrigin.subtract(frame.origin));
+        const d = toFrame(frame, rayDir);
+        const height = frame.height;
+        const radius = capsule.radius;
+        let t = Infinity;
+
+        // The cylinder between the hemispheres
+        const side = solveQuadratic(d.x * d.x + d.y * d.y, 2 * (o.x * d.x + o.y * d.y), o.x * o.x + o.y * o.y - radius * radius);
+        for (const root of side) {
+            const z = o.z + root * d.z;
+            if (root > 0.001 && root < t && z >= 0 && z <= height) t = root;
+        }
+
+        // Hemispheres around both ends, each only beyond its end of the axis
+        for (const end of [0, height]) {
+            const oc = new Vector3(o.x, o.y, o.z - end);
+            for (const root of solveQuadratic(d.dot(d), 2 * oc.dot(d), oc.dot(oc) - radius * radius)) {
+                const z = o.z + root * d.z;
+                if (root > 0.001 && root < t && (end === 0 ? z <= 0 : z >= height)) t = root;
+            }
+        }
+
+        if (t === Infinity) return noHit(capsule.material);
+
+        // Normal points away from the closest point on the axis
+        const local = o.add(d.multiply(t));
+        const axisZ = Math.min(height, Math.max(0, local.z));
+        const normal = new Vector3(local.x, local.y, local.z - axisZ).normalize();
+
+        return {
+            hit: true,
+            distance: t,
+            point: rayOrigin.add(rayDir.multiply(t)).toVec3(),
+            normal: fromFrame(frame, normal).toVec3(),
+            material: capsule.material,
+            uv: this.needsUV(capsule.material) ? {
+                u: 0.5 + Math.atan2(local.y, local.x) / (2 * Math.PI),
+                v: (local.z + radius) / (height + 2 * radius)
+            } : undefined
+        };
+    }
+
+    private intersectCSG(ray: Ray, csg: CSG): HitInfo {
+        for (const interval of this.csgIntervals(ray, csg)) {
+            // From inside the solid, its exit is the visible surface
+            const crossing = interval.enter.t > 0.001 ? interval.enter : interval.exit.t > 0.001 ? interval.exit : null;
+            if (!crossing || !isFinite(crossing.t)) continue;
+
+            const rayOrigin = Vector3.fromVec3(ray.origin);
+            const rayDir = Vector3.fromVec3(ray.direction);
+            return {
+                hit: true,
+                distance: crossing.t,
+                point: rayOrigin.add(rayDir.multiply(crossing.t)).toVec3(),
+                normal: crossing.normal.toVec3(),
+                material: csg.material ?? crossing.material,
+                uv: crossing.uv
+            };
+        }
+
+        return noHit(csg.material ?? { color: { r: 0, g: 0, b: 0 }, reflectivity: 0, shininess: 0 });
+    }
+
+    private csgIntervals(ray: Ray, csg: CSG): Interval[] {
+        // A textured override needs UVs even where the children have no texture
+        const previousForceUV = this.forceUV;
+        this.forceUV = previousForceUV || !!csg.material?.texture;
+
+        const intervals = csg.children
+            .map(child => this.intervals(ray, child))
+            .reduce((a, b) => combineIntervals(a, b, csg.operation));
+
+        this.forceUV = previousForceUV;
+        return intervals;
+    }
+
+    /**
+     * Every stretch of the (whole, infinite) ray that lies inside a solid.
+     */
+    private intervals(ray: Ray, obj: SceneObject): Interval[] {
+        // Shifting the origin leaves the ray parameters, and so the intervals, in place
+        const offset = this.motionOffset(ray, obj);
+        if (offset) ray = { ...ray, origin: Vector3.fromVec3(ray.origin).subtract(offset).toVec3() };
+
+        if (!obj.transform) {
+            return this.localIntervals(ray, obj);
+        }
+
+        const { inverse, normalMatrix } = getTransformMatrices(obj.transform);
+        const toWorld = (crossing: Crossing): Crossing => ({
+            ...crossing,
+            normal: Vector3.fromVec3(normalMatrix.transformDirection(crossing.normal)).normalize()
+        });
+        return this.localIntervals({
+            origin: inverse.transformPoint(ray.origin),
+            direction: inverse.transformDirection(ray.direction),
+            time: ray.time
+        }, obj).map(interval => ({ enter: toWorld(interval.enter), exit: toWorld(interval.exit) }));
+    }
+
+    private localIntervals(ray: Ray, obj: SceneObject): Interval[] {
+        switch (obj.type) {
+            case 'sphere':
+                return this.sphereIntervals(ray, obj);
+            case 'box':
+                return this.boxIntervals(ray, obj);
+            case 'plane':
+                return this.planeIntervals(ray, obj);
+            case 'csg':
+                return this.csgIntervals(ray, obj);
+            default:
+                return this.crossingIntervals(ray, obj);
+        }
+    }
+
+    private sphereIntervals(ray: Ray, sphere: Sphere): Interval[] {
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const center = Vector3.fromVec3(sphere.center);
+
+        const oc = rayOrigin.subtract(center);
+        const a = rayDir.dot(rayDir);
+        const b = 2 * oc.dot(rayDir);
+        const c = oc.dot(oc) - sphere.radius * sphere.radius;
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant < 0) return [];
+
+        const crossing = (t: number): Crossing => {
+            const normal = rayOrigin.add(rayDir.multiply(t)).subtract(center).normalize();
+            return { t, normal, material: sphere.material, uv: this.needsUV(sphere.material) ? sphericalUV(normal) : undefined };
+        };
+        return [{
+            enter: crossing((-b - Math.sqrt(discriminant)) / (2 * a)),
+            exit: crossing((-b + Math.sqrt(discriminant)) / (2 * a))
+        }];
+    }
+
+    private boxIntervals(ray: Ray, box: Box): Interval[] {
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const [tmin, tmax] = slabRange(ray, box.min, box.max);
+        if (tmin > tmax) return [];
+
+        const crossing = (t: number): Crossing => {
+            const { normal, uv } = boxSurface(box, rayOrigin.add(rayDir.multiply(t)));
+            return { t, normal, material: box.material, uv: this.needsUV(box.material) ? uv : undefined };
+        };
+        return [{ enter: crossing(tmin), exit: crossing(tmax) }];
+    }
+
+    /**
+     * A plane bounds the half-space behind its normal.
+     */
+    private planeIntervals(ray: Ray, plane: Plane): Interval[] {
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const normal = Vector3.fromVec3(plane.normal).normalize();
+        const planePoint = Vector3.fromVec3(plane.point);
+        const depth = planePoint.subtract(rayOrigin).dot(normal);
+        const denom = normal.dot(rayDir);
+
+        const crossing = (t: number): Crossing => {
+            let uv: UV | undefined;
+            if (this.needsUV(plane.material) && isFinite(t)) {
+                const [tangent, bitangent] = buildBasis(normal);
+                const offset = rayOrigin.add(rayDir.multiply(t)).subtract(planePoint);
+                uv = { u: offset.dot(tangent), v: offset.dot(bitangent) };
+            }
+            return { t, normal, material: plane.material, uv };
+        };
+
+        if (Math.abs(denom) < 0.0001) {
+            // Parallel: the whole ray is inside or outside
+            return depth >= 0 ? [{ enter: crossing(-Infinity), exit: crossing(Infinity) }] : [];
+        }
+
+        const t = depth / denom;
+        return denom < 0
+            ? [{ enter: crossing(t), exit: crossing(Infinity) }]
+            : [{ enter: crossing(-Infinity), exit: crossing(t) }];
+    }
+
+    /**
+     * Intervals for the remaining solids, found by following the ray through
+     * the object with its closest-hit routine, starting where the ray enters
+     * the bounding box.
+     */
+    private crossingIntervals(ray: Ray, obj: SceneObject): Interval[] {
+        const bounds = computeLocalBounds(obj, this.bvh.definitions);
+        if (!bounds) return [];
+
+        const [tmin, tmax] = slabRange(ray, bounds.min, bounds.max);
+        if (tmin > tmax) return [];
+
+        const rayOrigin = Vector3.fromVec3(ray.origin);
+        const rayDir = Vector3.fromVec3(ray.direction);
+        const crossings: Crossing[] = [];
+        let t = tmin - 0.01;
+
+        for (let i = 0; i < MAX_CROSSINGS; i++) {
+            const hit = this.intersectLocal({ ...ray, origin: rayOrigin.add(rayDir.multiply(t)).toVec3() }, obj);
+            if (!hit.hit) break;
+
+            t += hit.distance;
+            crossings.push({ t, normal: Vector3.fromVec3(hit.normal), material: hit.material, uv: hit.uv });
+        }
+
+        return pairCrossings(crossings, rayDir);
+    }
+
+    private calculateLighting(hit: HitInfo, light: Light, ray: Ray): Color {
+        // Area lights are averaged over several shadow rays, producing penumbrae
+        const color = { r: 0, g: 0, b: 0 };
+
+        for (const sample of sampleLight(light, hit.point)) {
+            const sampleColor = this.calculateLightSample(hit, light, sample.position, ray);
+            color.r += sampleColor.r * sample.weight;
+            color.g += sampleColor.g * sample.weight;
+            color.b += sampleColor.b * sample.weight;
+        }
+
+        return color;
+    }
+
+    private calculateLightSample(hit: HitInfo, light: Light, lightPosition: Vec3 | null, ray: Ray): Color {
+        const hitPoint = Vector3.fromVec3(hit.point);
+        const normal = Vector3.fromVec3(hit.normal);
+        const { lightDir, distance } = this.lightDirection(light, lightPosition, hitPoint);
+
+        const falloff = lightFalloff(light, lightDir, distance);
+        if (falloff <= 0) {
+            return { r: 0, g: 0, b: 0 };
+        }
+
+        const transmission = this.calculateShadowTransmission(this.shadowRay(hitPoint, normal, lightDir, ray.time), distance);
+        if (transmission <= 0) {
+            return { r: 0, g: 0, b: 0 };
+        }
+
+        const intensity = light.intensity * falloff * transmission;
+        const viewDir = Vector3.fromVec3(ray.direction).multiply(-1).normalize();
+
+        if (hit.material.type === 'pbr') {
+            const reflected = evaluatePBR(hit.material, this.surfaceColor(hit), normal, viewDir, lightDir);
+            return {
+                r: reflected.r * light.color.r * intensity,
+                g: reflected.g * light.color.g * intensity,
+                b: reflected.b * light.color.b * intensity
+            };
+        }
+
+        const diffuse = Math.max(0, normal.dot(lightDir));
+        const reflectDir = lightDir.multiply(-1).reflect(normal).normalize();
+        const specular = Math.pow(Math.max(0, viewDir.dot(reflectDir)), hit.material.shininess);
+
+        const color = this.surfaceColor(hit);
+        return {
+            r: (color.r * diffuse + specular) * light.color.r * intensity,
+            g: (color.g * diffuse + specular) * light.color.g * intensity,
+            b: (color.b * diffuse + specular) * light.color.b * intensity
+        };
+    }
+
+    private lightDirection(light: Light, lightPosition: Vec3 | null, hitPoint: Vector3): { lightDir: Vector3; distance: number } {
+        // Directional lights shine from infinitely far away, against their direction
+        if (light.type === 'directional') {
+            return { lightDir: Vector3.fromVec3(light.direction).multiply(-1).normalize(), distance: Infinity };
+        }
+        const toLight = Vector3.fromVec3(lightPosition!).subtract(hitPoint);
+        return { lightDir: toLight.normalize(), distance: toLight.length() };
+    }
+
+    private shadowRay(hitPoint: Vector3, normal: Vector3, lightDir: Vector3, time?: number): Ray {
+        return {
+            origin: hitPoint.add(normal.multiply(0.001)).toVec3(),
+            direction: lightDir.toVec3(),
+            time
+        };
+    }
+
+    /**
+     * Share of the light reaching the side of the surface the ray sees that
+     * is not blocked, weighted by the light intensities. Surfaces no light
+     * faces count as unshadowed.
+     */
+    private lightVisibility(hit: HitInfo, ray: Ray): number {
+        const hitPoint = Vector3.fromVec3(hit.point);
+        let normal = Vector3.fromVec3(hit.normal);
+        if (normal.dot(Vector3.fromVec3(ray.direction)) > 0) normal = normal.multiply(-1);
+
+        let total = 0;
+        let unblocked = 0;
+        for (const light of this.scene.lights) {
+            for (const sample of sampleLight(light, hit.point)) {
+                const { lightDir, distance } = this.lightDirection(light, sample.position, hitPoint);
+                const incoming = light.intensity * lightFalloff(light, lightDir, distance) * sample.weight;
+                if (incoming <= 0 || normal.dot(lightDir) <= 0) continue;
+
+                total += incoming;
+                unblocked += incoming * this.calculateShadowTransmission(this.shadowRay(hitPoint, normal, lightDir, ray.time), distance);
+            }
+        }
+
+        return total > 0 ? unblocked / total : 1;
+    }
+
+    private calculateShadowTransmission(shadowRay: Ray, maxDistance: number): number {
+        const occluders = this.countShadowOccluders(shadowRay, maxDistance);
+        if (occluders < 0) return 0;
+        if (occluders === 0) return 1;
+
+        // Walk along the shadow ray, dimming the light at every transparent surface
+        const direction = Vector3.fromVec3(shadowRay.direction);
+        let origin = Vector3.fromVec3(shadowRay.origin);
+        let remaining = maxDistance;
+        let transmission = 1;
+
+        while (transmission > 0.001) {
+            const shadowHit = this.findClosestIntersection({ ...shadowRay, origin: origin.toVec3() });
+            if (!shadowHit.hit || shadowHit.distance >= remaining) break;
+
+            const transparency = shadowHit.material.transparency ?? 0;
+            if (transparency <= 0) return 0;
+
+            transmission *= transparency;
+            origin = Vector3.fromVec3(shadowHit.point).add(direction.multiply(0.001));
+            remaining -= shadowHit.distance + 0.001;
+        }
+
+        return transmission;
+    }
+}
+
+/**
+ * Orthonormal frame with z along the axis from `base` to `top`. It preserves
+ * lengths, so ray parameters are the same in both spaces.
+ */
+interface AxisFrame {
+    origin: Vector3;
+    tangent: Vector3;
+    bitangent: Vector3;
+    axis: Vector3;
+    height: number;
+}
+
+function createAxisFrame(base: Vec3, top: Vec3): AxisFrame {
+    const origin = Vector3.fromVec3(base);
+    const span = Vector3.fromVec3(top).subtract(origin);
+    const axis = span.normalize();
+    const [tangent, bitangent] = buildBasis(axis);
+    return { origin, tangent, bitangent, axis, height: span.length() };
+}
+
+function toFrame(frame: AxisFrame, v: Vector3): Vector3 {
+    return new Vector3(v.dot(frame.tangent), v.dot(frame.bitangent), v.dot(frame.axis));
+}
+
+function fromFrame(frame: AxisFrame, v: Vector3): Vector3 {
+    return frame.tangent.multiply(v.x).add(frame.bitangent.multiply(v.y)).add(frame.axis.multiply(v.z));
+}
+
+/**
+ * Spherical mapping: longitude and latitude of the normal.
+ */
+function sphericalUV(normal: Vector3): UV {
+    return {
+        u: 0.5 + Math.atan2(normal.z, normal.x) / (2 * Math.PI),
+        v: 0.5 + Math.asin(Math.max(-1, Math.min(1, normal.y))) / Math.PI
+    };
+}
+
+function boxSurface(box: Box, point: Vector3): { normal: Vector3; uv: UV } {
+    // The hit face is the axis where the point lies furthest out, relative to the half size
+    const min = Vector3.fromVec3(box.min);
+    const size = Vector3.fromVec3(box.max).subtract(min);
+    const local = point.subtract(min);
+    const px = (local.x / size.x) * 2 - 1;
+    const py = (local.y / size.y) * 2 - 1;
+    const pz = (local.z / size.z) * 2 - 1;
+
+    if (Math.abs(px) >= Math.abs(py) && Math.abs(px) >= Math.abs(pz)) {
+        return { normal: new Vector3(Math.sign(px), 0, 0), uv: { u: local.z / size.z, v: local.y / size.y } };
+    } else if (Math.abs(py) >= Math.abs(pz)) {
+        return { normal: new Vector3(0, Math.sign(py), 0), uv: { u: local.x / size.x, v: local.z / size.z } };
+    }
+    return { normal: new Vector3(0, 0, Math.sign(pz)), uv: { u: local.x / size.x, v: local.y / size.y } };
+}
+
+/**
+ * Ray parameters where the whole (infinite) ray enters and leaves a box; empty
+ * when the first exceeds the second.
+ */
+function slabRange(ray: Ray, min: Vec3, max: Vec3): [number, number] {
+    const t1 = (min.x - ray.origin.x) / ray.direction.x;
+    const t2 = (max.x - ray.origin.x) / ray.direction.x;
+    const t3 = (min.y - ray.origin.y) / ray.direction.y;
+    const t4 = (max.y - ray.origin.y) / ray.direction.y;
+    const t5 = (min.z - ray.origin.z) / ray.direction.z;
+    const t6 = (max.z - ray.origin.z) / ray.direction.z;
+
+    return [
+        Math.max(Math.min(t1, t2), Math.min(t3, t4), Math.min(t5, t6)),
+        Math.min(Math.max(t1, t2), Math.max(t3, t4), Math.max(t5, t6))
+    ];
+}
+
+function noHit(material: Material): HitInfo {
+    return {
+        hit: false,
+        distance: Infinity,
+        point: { x: 0, y: 0, z: 0 },
+        normal: { x: 0, y: 0, z: 0 },
+        material
+    };
+}
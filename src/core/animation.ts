@@ -0,0 +1,197 @@
+import type { AnimatedValue, Animation, AnimationTrack, Keyframe, Scene, SceneObject, Vec3 } from '../types/scene.types';
+import { shutterInterval, type ShutterInterval } from './motion';
+import { getTransformMatrices } from './transforms';
+
+export interface FrameRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits a track target such as "objects[2].transform.rotate" into property
+ * names and array indices. Returns null for malformed paths.
+ */
+export function parseTargetPath(target: string): (string | number)[] | null {
+    const segments: (string | number)[] = [];
+    const pattern = /([A-Za-z_]\w*)|\[(\d+)\]/y;
+    let expectName = true;
+
+    for (let offset = 0; offset < target.length;) {
+        if (!expectName && target[offset] === '.') {
+            offset++;
+            expectName = true;
+            continue;
+        }
+
+        pattern.lastIndex = offset;
+        const match = pattern.exec(target);
+        if (!match || (match[1] !== undefined) !== expectName) return null;
+
+        segments.push(match[1] ?? Number(match[2]));
+        expectName = false;
+        offset = pattern.lastIndex;
+    }
+
+    return segments.length > 0 && !expectName ? segments : null;
+}
+
+/**
+ * Frames the animation covers: its start and end, by default the first and
+ * the last keyframe of all tracks.
+ */
+export function animationRange(animation: Animation): FrameRange {
+    const frames = animation.tracks.flatMap(track => track.keyframes.map(key => key.frame));
+    const first = frames.length > 0 ? Math.min(...frames) : 0;
+    const last = frames.length > 0 ? Math.max(...frames) : 0;
+    return {
+        start: animation.start ?? Math.floor(first),
+        end: animation.end ?? Math.ceil(last)
+    };
+}
+
+/**
+ * The scene as it looks at `frame`: a copy with every animated property set to
+ * its interpolated value. Only the objects on the way to an animated property
+ * are copied, so textures, meshes and everything else stay shared with the
+ * original, which is left untouched. Scenes without animation are returned as
+ * they are.
+ *
+ * When the camera's shutter stays open over a time span, objects moved by
+ * their center or translate tracks also get the velocity of that motion, so
+ * they are blurred along their path.
+ */
+export function evaluateAnimation(scene: Scene, frame: number): Scene {
+    if (!scene.animation) return scene;
+
+    const root = { ...scene } as Record<string | number, unknown>;
+    const copies = new Set<unknown>([root]);
+    const evaluated = root as unknown as Scene;
+
+    for (const track of scene.animation.tracks) {
+        const path = parseTargetPath(track.target);
+        if (!path || track.keyframes.length === 0) continue;
+        setPath(root, copies, path, sampleTrack(track, frame));
+    }
+
+    const shutter = shutterInterval(evaluated.camera);
+    if (shutter.close <= shutter.open) return evaluated;
+
+    for (const track of scene.animation.tracks) {
+        const path = parseTargetPath(track.target);
+        if (!path || track.keyframes.length === 0 || path[0] !== 'objects') continue;
+
+        const obj = evaluated.objects[path[1] as number];
+        const motion = trackMotion(obj, path.slice(2).join('.'), track, frame, shutter);
+        if (!motion) continue;
+
+        const velocity = (obj as { velocity?: Vec3 }).velocity ?? { x: 0, y: 0, z: 0 };
+        setPath(root, copies, ['objects', path[1], 'velocity'], {
+            x: velocity.x + motion.x,
+            y: velocity.y + motion.y,
+            z: velocity.z + motion.z
+        });
+    }
+
+    return evaluated;
+}
+
+/**
+ * Sets the property at `path`, copying every container on the way that is not
+ * in `copies` yet.
+ */
+function setPath(root: Record<string | number, unknown>, copies: Set<unknown>, path: (string | number)[], value: unknown): void {
+    let container = root;
+    for (const segment of path.slice(0, -1)) {
+        const child = container[segment];
+        let copy = child;
+        if (!copies.has(child)) {
+            // Missing containers (e.g. an object's transform) are created on the way
+            copy = Array.isArray(child) ? [...child] : { ...(child as object ?? {}) };
+            copies.add(copy);
+            container[segment] = copy;
+        }
+        container = copy as Record<string | number, unknown>;
+    }
+
+    container[path[path.length - 1]] = value;
+}
+
+/**
+ * Average world-space velocity a track gives an object while the shutter is
+ * open, or null if the track does not move the object as a whole.
+ */
+function trackMotion(obj: SceneObject, property: string, track: AnimationTrack, frame: number, shutter: ShutterInterval): Vec3 | null {
+    const movable = obj.type === 'sphere' || obj.type === 'box' || obj.type === 'triangle' || obj.type === 'mesh';
+    const moves = property === 'transform.translate' || (property === 'center' && obj.type === 'sphere');
+    if (!movable || !moves) return null;
+
+    const open = sampleTrack(track, frame + shutter.open) as Vec3;
+    const close = sampleTrack(track, frame + shutter.close) as Vec3;
+    const duration = shutter.close - shutter.open;
+    let motion: Vec3 = {
+        x: (close.x - open.x) / duration,
+        y: (close.y - open.y) / duration,
+        z: (close.z - open.z) / duration
+    };
+
+    // A center lies in object space, so its motion is turned and scaled with the transform
+    if (property === 'center' && obj.transform) {
+        motion = getTransformMatrices(obj.transform).matrix.transformDirection(motion);
+    }
+    return motion;
+}
+
+/**
+ * Value of a track at `frame`, interpolated between the surrounding keyframes.
+ */
+export function sampleTrack(track: AnimationTrack, frame: number): AnimatedValue {
+    const keys = track.keyframes;
+    const last = keys.length - 1;
+    if (frame <= keys[0].frame) return copyValue(keys[0].value);
+    if (frame >= keys[last].frame) return copyValue(keys[last].value);
+
+    let k = 0;
+    while (keys[k + 1].frame <= frame) k++;
+    const t = (frame - keys[k].frame) / (keys[k + 1].frame - keys[k].frame);
+    const smooth = track.interpolation === 'smooth';
+
+    const component = (get: (value: AnimatedValue) => number): number => {
+        const p0 = get(keys[k].value);
+        const p1 = get(keys[k + 1].value);
+        if (!smooth) return p0 + (p1 - p0) * t;
+
+        // Cubic Hermite segment with the automatic tangents of both keyframes
+        const span = keys[k + 1].frame - keys[k].frame;
+        const m0 = tangent(keys, k, get) * span;
+        const m1 = tangent(keys, k + 1, get) * span;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        return (2 * t3 - 3 * t2 + 1) * p0 + (t3 - 2 * t2 + t) * m0 + (-2 * t3 + 3 * t2) * p1 + (t3 - t2) * m1;
+    };
+
+    const first = keys[k].value;
+    if (typeof first === 'number') return component(value => value as number);
+    return Object.fromEntries(
+        Object.keys(first).map(name => [name, component(value => (value as unknown as Record<string, number>)[name])])
+    ) as unknown as AnimatedValue;
+}
+
+/**
+ * Slope at keyframe `k` in value per frame: along the neighbors (Catmull-Rom),
+ * but flat at the ends and at turning points, so the motion eases in and out
+ * there instead of swinging past the keyframe ("auto clamped" tangents).
+ */
+function tangent(keys: Keyframe[], k: number, get: (value: AnimatedValue) => number): number {
+    if (k === 0 || k === keys.length - 1) return 0;
+
+    const previous = get(keys[k - 1].value);
+    const current = get(keys[k].value);
+    const next = get(keys[k + 1].value);
+    if ((current - previous) * (next - current) <= 0) return 0;
+
+    return (next - previous) / (keys[k + 1].frame - keys[k - 1].frame);
+}
+
+function copyValue(value: AnimatedValue): AnimatedValue {
+    return typeof value === 'number' ? value : { ...value };
+}
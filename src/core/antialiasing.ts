@@ -0,0 +1,194 @@
+import type { Color, AntialiasingSettings, SamplePattern, ReconstructionFilter, Tile } from '../types/scene.types';
+import { hashToUnit, wrap } from '../math/sampling';
+
+export interface PixelSample {
+    dx: number;     // offset from the pixel center, in pixels
+    dy: number;
+    weight: number;
+}
+
+export const DEFAULT_ANTIALIASING: AntialiasingSettings = {
+    samplesPerPixel: 1,
+    pattern: 'grid',
+    filter: 'box',
+    adaptive: false,
+    adaptiveThreshold: 0.1
+};
+
+// Filters wider than a pixel spread their samples over the whole footprint
+const FILTER_RADIUS: Record<ReconstructionFilter, number> = {
+    box: 0.5,
+    tent: 1.0,
+    gaussian: 1.0
+};
+
+/**
+ * Renders a rectangular region of the image into a linear RGB buffer. `shade`
+ * receives continuous pixel coordinates where (x, y) is the pixel center.
+ *
+ * The result only depends on the pixel coordinates, never on how the image is
+ * split into tiles, so the main thread and the workers produce identical pixels.
+ */
+export function renderRegion(
+    imageWidth: number,
+    imageHeight: number,
+    region: Tile,
+    settings: AntialiasingSettings,
+    shade: (x: number, y: number) => Color
+): Float32Array {
+    const output = new Float32Array(region.width * region.height * 3);
+    const sampleCount = effectiveSampleCount(settings.samplesPerPixel);
+    const outputIndex = (x: number, y: number) => ((y - region.y) * region.width + (x - region.x)) * 3;
+
+    if (sampleCount <= 1 || !settings.adaptive) {
+        for (let y = region.y; y < region.y + region.height; y++) {
+            for (let x = region.x; x < region.x + region.width; x++) {
+                const color = sampleCount <= 1 ? shade(x, y) : supersample(x, y, settings, shade);
+                writeColor(output, outputIndex(x, y), color);
+            }
+        }
+        return output;
+    }
+
+    // Adaptive: one center sample everywhere (plus a one pixel margin for the
+    // neighbor test), then supersample only the pixels that differ from their neighbors
+    const margin: Tile = {
+        x: Math.max(0, region.x - 1),
+        y: Math.max(0, region.y - 1),
+        width: 0,
+        height: 0
+    };
+    margin.width = Math.min(imageWidth, region.x + region.width + 1) - margin.x;
+    margin.height = Math.min(imageHeight, region.y + region.height + 1) - margin.y;
+
+    const centers = new Float32Array(margin.width * margin.height * 3);
+    for (let y = margin.y; y < margin.y + margin.height; y++) {
+        for (let x = margin.x; x < margin.x + margin.width; x++) {
+            writeColor(centers, ((y - margin.y) * margin.width + (x - margin.x)) * 3, shade(x, y));
+        }
+    }
+
+    for (let y = region.y; y < region.y + region.height; y++) {
+        for (let x = region.x; x < region.x + region.width; x++) {
+            const centerIndex = ((y - margin.y) * margin.width + (x - margin.x)) * 3;
+            const outIndex = outputIndex(x, y);
+
+            if (neighborContrast(centers, margin, x, y) > settings.adaptiveThreshold) {
+                writeColor(output, outIndex, supersample(x, y, settings, shade));
+            } else {
+                output[outIndex] = centers[centerIndex];
+                output[outIndex + 1] = centers[centerIndex + 1];
+                output[outIndex + 2] = centers[centerIndex + 2];
+            }
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Sample offsets and filter weights for one pixel. Jittered patterns are seeded
+ * with the pixel coordinates so repeated renders are reproducible.
+ */
+export function generatePixelSamples(
+    x: number,
+    y: number,
+    samplesPerPixel: number,
+    pattern: SamplePattern,
+    filter: ReconstructionFilter
+): PixelSample[] {
+    const gridSize = Math.ceil(Math.sqrt(Math.max(1, samplesPerPixel)));
+    const radius = FILTER_RADIUS[filter];
+    const samples: PixelSample[] = [];
+
+    // Rotating the grid by atan(1/2) gives every sample its own row and column
+    const angle = Math.atan(0.5);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    for (let j = 0; j < gridSize; j++) {
+        for (let i = 0; i < gridSize; i++) {
+            // Position in the unit square [0, 1)
+            let u = (i + 0.5) / gridSize;
+            let v = (j + 0.5) / gridSize;
+
+            if (pattern === 'jittered') {
+                const sampleIndex = j * gridSize + i;
+                u = (i + hashToUnit(x, y, sampleIndex * 2)) / gridSize;
+                v = (j + hashToUnit(x, y, sampleIndex * 2 + 1)) / gridSize;
+            } else if (pattern === 'rotated') {
+                const ru = (u - 0.5) * cos - (v - 0.5) * sin;
+                const rv = (u - 0.5) * sin + (v - 0.5) * cos;
+                u = wrap(ru + 0.5);
+                v = wrap(rv + 0.5);
+            }
+
+            const dx = (u - 0.5) * 2 * radius;
+            const dy = (v - 0.5) * 2 * radius;
+            samples.push({ dx, dy, weight: filterWeight(filter, dx, dy) });
+        }
+    }
+
+    return samples;
+}
+
+export function effectiveSampleCount(samplesPerPixel: number): number {
+    const gridSize = Math.ceil(Math.sqrt(Math.max(1, samplesPerPixel)));
+    return gridSize * gridSize;
+}
+
+function supersample(x: number, y: number, settings: AntialiasingSettings, shade: (x: number, y: number) => Color): Color {
+    const samples = generatePixelSamples(x, y, settings.samplesPerPixel, settings.pattern, settings.filter);
+    const sum = { r: 0, g: 0, b: 0 };
+    let totalWeight = 0;
+
+    for (const sample of samples) {
+        const color = shade(x + sample.dx, y + sample.dy);
+        sum.r += color.r * sample.weight;
+        sum.g += color.g * sample.weight;
+        sum.b += color.b * sample.weight;
+        totalWeight += sample.weight;
+    }
+
+    if (totalWeight <= 0) return shade(x, y);
+
+    return { r: sum.r / totalWeight, g: sum.g / totalWeight, b: sum.b / totalWeight };
+}
+
+function filterWeight(filter: ReconstructionFilter, dx: number, dy: number): number {
+    switch (filter) {
+        case 'tent':
+            return Math.max(0, 1 - Math.abs(dx)) * Math.max(0, 1 - Math.abs(dy));
+        case 'gaussian': {
+            const sigma = 0.5;
+            return Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+        }
+        case 'box':
+        default:
+            return 1;
+    }
+}
+
+function neighborContrast(centers: Float32Array, area: Tile, x: number, y: number): number {
+    const index = ((y - area.y) * area.width + (x - area.x)) * 3;
+    let contrast = 0;
+
+    for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+        if (nx < area.x || nx >= area.x + area.width || ny < area.y || ny >= area.y + area.height) continue;
+        const neighbor = ((ny - area.y) * area.width + (nx - area.x)) * 3;
+        contrast = Math.max(
+            contrast,
+            Math.abs(centers[index] - centers[neighbor]),
+            Math.abs(centers[index + 1] - centers[neighbor + 1]),
+            Math.abs(centers[index + 2] - centers[neighbor + 2])
+        );
+    }
+
+    return contrast;
+}
+
+function writeColor(buffer: Float32Array, index: number, color: Color): void {
+    buffer[index] = color.r;
+    buffer[index + 1] = color.g;
+    buffer[index + 2] = color.b;
+}
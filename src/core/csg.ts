@@ -0,0 +1,91 @@
+import type { CSGOperation, Material, UV } from '../types/scene.types';
+import { Vector3 } from '../math/Vector3';
+
+/**
+ * A point where a ray crosses the surface of a solid. The normal points out of
+ * the solid; `t` may be negative or infinite (half-spaces).
+ */
+export interface Crossing {
+    t: number;
+    normal: Vector3;
+    material: Material;
+    uv?: UV;
+}
+
+/**
+ * A stretch of the ray inside a solid.
+ */
+export interface Interval {
+    enter: Crossing;
+    exit: Crossing;
+}
+
+/**
+ * Turns surface crossings sorted along the ray into intervals, using the
+ * normal to tell entries from exits.
+ */
+export function pairCrossings(crossings: Crossing[], direction: Vector3): Interval[] {
+    const intervals: Interval[] = [];
+    let enter: Crossing | null = null;
+
+    for (const crossing of crossings) {
+        if (crossing.normal.dot(direction) < 0) {
+            enter = crossing;
+        } else if (enter) {
+            intervals.push({ enter, exit: crossing });
+            enter = null;
+        }
+    }
+
+    return intervals;
+}
+
+/**
+ * Combines two sorted, disjoint interval lists by sweeping over their end
+ * points. Surfaces of the subtracted solid are turned inside out.
+ */
+export function combineIntervals(a: Interval[], b: Interval[], operation: CSGOperation): Interval[] {
+    const events = [
+        ...a.flatMap(interval => [
+            { crossing: interval.enter, fromB: false, entering: true },
+            { crossing: interval.exit, fromB: false, entering: false }
+        ]),
+        ...b.flatMap(interval => [
+            { crossing: interval.enter, fromB: true, entering: true },
+            { crossing: interval.exit, fromB: true, entering: false }
+        ])
+    ].sort((x, y) => x.crossing.t - y.crossing.t);
+
+    const inside = (inA: boolean, inB: boolean): boolean => {
+        switch (operation) {
+            case 'union': return inA || inB;
+            case 'intersection': return inA && inB;
+            case 'difference': return inA && !inB;
+        }
+    };
+
+    const result: Interval[] = [];
+    let inA = false;
+    let inB = false;
+    let enter: Crossing | null = null;
+
+    for (const event of events) {
+        const wasInside = inside(inA, inB);
+        if (event.fromB) inB = event.entering;
+        else inA = event.entering;
+        if (inside(inA, inB) === wasInside) continue;
+
+        const crossing = operation === 'difference' && event.fromB
+            ? { ...event.crossing, normal: event.crossing.normal.multiply(-1) }
+            : event.crossing;
+
+        if (!wasInside) {
+            enter = crossing;
+        } else if (enter) {
+            result.push({ enter, exit: crossing });
+            enter = null;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,101 @@
+import type { Color, EnvironmentMap, Scene, Sky, Vec3 } from '../types/scene.types';
+
+const DEFAULT_ZENITH: Color = { r: 0.2, g: 0.4, b: 0.8 };
+const DEFAULT_HORIZON: Color = { r: 0.8, g: 0.85, b: 0.9 };
+const DEFAULT_GROUND: Color = { r: 0.3, g: 0.28, b: 0.25 };
+const DEFAULT_SUN_COLOR: Color = { r: 1, g: 0.95, b: 0.85 };
+const DEFAULT_SUN_INTENSITY = 20;
+const DEFAULT_SUN_SIZE = 1;
+
+// Width of the band below the horizon over which the sky fades into the ground
+const HORIZON_BLUR = 0.05;
+
+// Brightness and tightness of the halo around the sun disk
+const SUN_GLOW = 0.5;
+const SUN_GLOW_EXPONENT = 256;
+
+const MISSING_IMAGE: Color = { r: 1, g: 0, b: 1 };
+
+/**
+ * Radiance arriving from `direction` for a ray that leaves the scene: the
+ * environment if there is one, otherwise the flat background color.
+ */
+export function sampleEnvironment(scene: Scene, direction: Vec3): Color {
+    const environment = scene.environment;
+    if (!environment) return scene.backgroundColor;
+
+    const length = Math.hypot(direction.x, direction.y, direction.z) || 1;
+    const d = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+    return environment.type === 'sky' ? sampleSky(environment, d) : sampleMap(environment, d);
+}
+
+function sampleSky(sky: Sky, d: Vec3): Color {
+    const zenith = sky.zenithColor ?? DEFAULT_ZENITH;
+    const horizon = sky.horizonColor ?? DEFAULT_HORIZON;
+    const ground = sky.groundColor ?? DEFAULT_GROUND;
+
+    let color = d.y >= 0
+        ? mix(horizon, zenith, Math.sqrt(d.y))
+        : mix(horizon, ground, Math.min(1, -d.y / HORIZON_BLUR));
+
+    if (sky.sunDirection) {
+        const sun = sky.sunDirection;
+        const sunLength = Math.hypot(sun.x, sun.y, sun.z);
+        const cosAngle = (d.x * sun.x + d.y * sun.y + d.z * sun.z) / sunLength;
+        const sunColor = sky.sunColor ?? DEFAULT_SUN_COLOR;
+        const cosSize = Math.cos(((sky.sunSize ?? DEFAULT_SUN_SIZE) * Math.PI) / 180);
+
+        const strength = cosAngle >= cosSize
+            ? sky.sunIntensity ?? DEFAULT_SUN_INTENSITY
+            : SUN_GLOW * Math.pow(Math.max(0, cosAngle), SUN_GLOW_EXPONENT);
+        color = {
+            r: color.r + sunColor.r * strength,
+            g: color.g + sunColor.g * strength,
+            b: color.b + sunColor.b * strength
+        };
+    }
+
+    return scale(color, sky.intensity ?? 1);
+}
+
+/**
+ * Bilinear lookup in the equirectangular image, wrapping around in azimuth.
+ */
+function sampleMap(map: EnvironmentMap, d: Vec3): Color {
+    const image = map.image;
+    if (!image) return MISSING_IMAGE;
+
+    const rotation = (map.rotation ?? 0) / 360;
+    const u = 0.5 + Math.atan2(d.x, -d.z) / (2 * Math.PI) - rotation;
+    const v = Math.acos(Math.min(1, Math.max(-1, d.y))) / Math.PI;
+
+    const x = (u - Math.floor(u)) * image.width - 0.5;
+    const y = Math.min(image.height - 1, Math.max(0, v * image.height - 0.5));
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const texel = (tx: number, ty: number): Color => {
+        const px = ((tx % image.width) + image.width) % image.width;
+        const py = Math.min(image.height - 1, ty);
+        const index = (py * image.width + px) * 3;
+        return { r: image.data[index], g: image.data[index + 1], b: image.data[index + 2] };
+    };
+
+    const top = mix(texel(x0, y0), texel(x0 + 1, y0), fx);
+    const bottom = mix(texel(x0, y0 + 1), texel(x0 + 1, y0 + 1), fx);
+    return scale(mix(top, bottom, fy), map.intensity ?? 1);
+}
+
+function mix(a: Color, b: Color, t: number): Color {
+    return {
+        r: a.r + (b.r - a.r) * t,
+        g: a.g + (b.g - a.g) * t,
+        b: a.b + (b.b - a.b) * t
+    };
+}
+
+function scale(color: Color, factor: number): Color {
+    return { r: color.r * factor, g: color.g * factor, b: color.b * factor };
+}
@@ -0,0 +1,122 @@
+import type { Attenuation, AttenuationCoefficients, Light, Vec3 } from '../types/scene.types';
+import { Vector3 } from '../math/Vector3';
+import { buildBasis, hashToUnit, wrap } from '../math/sampling';
+
+export interface LightSample {
+    position: Vec3 | null;  // null for directional lights, which have no position
+    weight: number;         // share of the light's intensity carried by this sample
+}
+
+const DEFAULT_AREA_SAMPLES = 16;
+const DEFAULT_SPOT_FALLOFF = 0.2;
+
+// 1 / (1 + 0.1d + 0.01d²), the fixed falloff used before attenuation was configurable
+const DEFAULT_ATTENUATION: AttenuationCoefficients = { constant: 1, linear: 0.1, quadratic: 0.01 };
+
+/**
+ * Positions to shoot shadow rays at when lighting `point`. Point lights yield a
+ * single sample; area lights are sampled on a stratified grid whose jitter is
+ * seeded by the shading point, so renders stay reproducible.
+ */
+export function sampleLight(light: Light, point: Vec3): LightSample[] {
+    if (light.type === 'directional') {
+        return [{ position: null, weight: 1 }];
+    }
+    if (!light.type || light.type === 'point' || light.type === 'spot') {
+        return [{ position: light.position, weight: 1 }];
+    }
+
+    const gridSize = Math.max(1, Math.round(Math.sqrt(light.samples ?? DEFAULT_AREA_SAMPLES)));
+    const sampleCount = gridSize * gridSize;
+    const seed = [Math.floor(point.x * 4096), Math.floor(point.y * 4096), Math.floor(point.z * 4096)];
+    const offsetU = hashToUnit(seed[0], seed[1], seed[2]);
+    const offsetV = hashToUnit(seed[2], seed[0], seed[1]);
+
+    const center = Vector3.fromVec3(light.position);
+    const toPoint = Vector3.fromVec3(point).subtract(center).normalize();
+    const samples: LightSample[] = [];
+
+    for (let j = 0; j < gridSize; j++) {
+        for (let i = 0; i < gridSize; i++) {
+            // Stratified position in the unit square, rotated per shading point
+            const s = wrap((i + 0.5) / gridSize + offsetU);
+            const t = wrap((j + 0.5) / gridSize + offsetV);
+
+            let position: Vector3;
+            let cosine = 1;
+
+            switch (light.type) {
+                case 'rect': {
+                    const u = Vector3.fromVec3(light.u);
+                    const v = Vector3.fromVec3(light.v);
+                    position = center.add(u.multiply(s - 0.5)).add(v.multiply(t - 0.5));
+                    cosine = Math.abs(u.cross(v).normalize().dot(toPoint));
+                    break;
+                }
+                case 'disk': {
+                    position = center.add(diskOffset(light.normal, light.radius, s, t));
+                    cosine = Math.abs(Vector3.fromVec3(light.normal).normalize().dot(toPoint));
+                    break;
+                }
+                case 'sphere':
+                default:
+                    // The visible part of a sphere projects onto a disk facing the point
+                    position = center.add(diskOffset(toPoint.toVec3(), light.radius, s, t));
+                    break;
+            }
+
+            samples.push({ position: position.toVec3(), weight: cosine / sampleCount });
+        }
+    }
+
+    return samples;
+}
+
+/**
+ * Share of the intensity that arrives from a light sample in direction
+ * `toLight` (unit vector from the shading point) at `distance`: attenuation,
+ * and for spotlights the cone.
+ */
+export function lightFalloff(light: Light, toLight: Vector3, distance: number): number {
+    if (light.type === 'directional') return 1;
+
+    let falloff = attenuate(light.attenuation ?? DEFAULT_ATTENUATION, distance);
+
+    if (light.type === 'spot') {
+        // Smooth edge between the outer angle and the inner angle where the falloff starts
+        const cosAngle = -toLight.dot(Vector3.fromVec3(light.direction).normalize());
+        const outer = (light.angle * Math.PI) / 180;
+        const inner = outer * (1 - (light.falloff ?? DEFAULT_SPOT_FALLOFF));
+        falloff *= smoothstep(Math.cos(outer), Math.cos(inner), cosAngle);
+    }
+
+    return falloff;
+}
+
+function attenuate(attenuation: Attenuation, distance: number): number {
+    switch (attenuation) {
+        case 'none':
+            return 1;
+        case 'linear':
+            return 1 / Math.max(distance, 1e-6);
+        case 'inverseSquare':
+            return 1 / Math.max(distance * distance, 1e-6);
+        default: {
+            const { constant = 0, linear = 0, quadratic = 0 } = attenuation;
+            return 1 / Math.max(constant + linear * distance + quadratic * distance * distance, 1e-6);
+        }
+    }
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    if (edge0 >= edge1) return x >= edge1 ? 1 : 0;
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+}
+
+function diskOffset(normal: Vec3, radius: number, s: number, t: number): Vector3 {
+    const [u, v] = buildBasis(normal);
+    const r = radius * Math.sqrt(s);
+    const phi = 2 * Math.PI * t;
+    return u.multiply(r * Math.cos(phi)).add(v.multiply(r * Math.sin(phi)));
+}
@@ -0,0 +1,31 @@
+import type { Camera, SceneObject, Vec3 } from '../types/scene.types';
+
+export interface ShutterInterval {
+    open: number;
+    close: number;
+}
+
+/**
+ * Time span over which the camera collects light, in frames relative to the
+ * rendered frame. Open and close are equal (no motion blur) unless the camera
+ * sets a shutterClose.
+ */
+export function shutterInterval(camera: Camera): ShutterInterval {
+    const open = camera.shutterOpen ?? 0;
+    return { open, close: camera.shutterClose ?? open };
+}
+
+/**
+ * Velocity of an object that moves while the shutter is open, or null for
+ * objects that stay in place.
+ */
+export function objectVelocity(obj: SceneObject): Vec3 | null {
+    switch (obj.type) {
+        case 'sphere':
+        case 'box':
+        case 'triangle':
+            return obj.velocity ?? null;
+        default:
+            return null;
+    }
+}
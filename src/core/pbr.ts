@@ -0,0 +1,106 @@
+import type { Color, PBRMaterial } from '../types/scene.types';
+import { Vector3 } from '../math/Vector3';
+import { buildBasis } from '../math/sampling';
+
+// Reflectance of dielectrics at normal incidence (about 4 %, ior 1.5)
+const DIELECTRIC_F0 = 0.04;
+
+// Below this roughness the lobe is treated as a perfect mirror
+export const MIRROR_ROUGHNESS = 0.03;
+
+/**
+ * GGX width from the perceptual roughness, kept above zero so point lights
+ * still leave a (tiny) highlight on polished surfaces.
+ */
+export function roughnessToAlpha(roughness: number): number {
+    return Math.max(MIRROR_ROUGHNESS * MIRROR_ROUGHNESS, roughness * roughness);
+}
+
+/**
+ * Reflectance at normal incidence: 4 % for dielectrics, the base color for metals.
+ */
+export function specularColor(material: PBRMaterial, baseColor: Color): Color {
+    const m = material.metallic;
+    return {
+        r: DIELECTRIC_F0 * (1 - m) + baseColor.r * m,
+        g: DIELECTRIC_F0 * (1 - m) + baseColor.g * m,
+        b: DIELECTRIC_F0 * (1 - m) + baseColor.b * m
+    };
+}
+
+export function fresnelSchlick(f0: Color, cosTheta: number): Color {
+    const f = Math.pow(1 - Math.min(1, Math.max(0, cosTheta)), 5);
+    return {
+        r: f0.r + (1 - f0.r) * f,
+        g: f0.g + (1 - f0.g) * f,
+        b: f0.b + (1 - f0.b) * f
+    };
+}
+
+/**
+ * Cook-Torrance BRDF (GGX distribution, Smith shadowing, Schlick Fresnel) plus
+ * a Lambertian diffuse term that only receives the energy Fresnel does not
+ * reflect. Returned pre-multiplied with cos θ and π, so a white diffuse surface
+ * facing a light reflects its full color, like the Phong model.
+ */
+export function evaluatePBR(material: PBRMaterial, baseColor: Color, normal: Vector3, viewDir: Vector3, lightDir: Vector3): Color {
+    const nDotL = normal.dot(lightDir);
+    const nDotV = normal.dot(viewDir);
+    if (nDotL <= 0 || nDotV <= 0) return { r: 0, g: 0, b: 0 };
+
+    const half = viewDir.add(lightDir).normalize();
+    const alpha = roughnessToAlpha(material.roughness);
+    const fresnel = fresnelSchlick(specularColor(material, baseColor), viewDir.dot(half));
+    const specular = (distributionGGX(normal.dot(half), alpha) * smithG1(nDotV, alpha) * smithG1(nDotL, alpha) * Math.PI) / (4 * nDotV);
+    const diffuse = (1 - material.metallic) * nDotL;
+
+    return {
+        r: fresnel.r * specular + (1 - fresnel.r) * diffuse * baseColor.r,
+        g: fresnel.g * specular + (1 - fresnel.g) * diffuse * baseColor.g,
+        b: fresnel.b * specular + (1 - fresnel.b) * diffuse * baseColor.b
+    };
+}
+
+/**
+ * Microfacet normal distributed with D(h)·(n·h), for importance sampling
+ * glossy reflections. `u1` and `u2` are uniform in [0, 1).
+ */
+export function sampleGGXHalfVector(normal: Vector3, alpha: number, u1: number, u2: number): Vector3 {
+    const cosTheta = Math.sqrt((1 - u1) / (1 + (alpha * alpha - 1) * u1));
+    const sinTheta = Math.sqrt(Math.max(0, 1 - cosTheta * cosTheta));
+    const phi = 2 * Math.PI * u2;
+    const [tangent, bitangent] = buildBasis(normal);
+
+    return tangent.multiply(sinTheta * Math.cos(phi))
+        .add(bitangent.multiply(sinTheta * Math.sin(phi)))
+        .add(normal.multiply(cosTheta))
+        .normalize();
+}
+
+/**
+ * Specular BRDF · cos θ / pdf for a direction reflected about a half vector
+ * from sampleGGXHalfVector. The distribution term cancels out.
+ */
+export function ggxSampleWeight(f0: Color, alpha: number, normal: Vector3, viewDir: Vector3, lightDir: Vector3, half: Vector3): Color {
+    const nDotL = normal.dot(lightDir);
+    const nDotV = normal.dot(viewDir);
+    const nDotH = normal.dot(half);
+    const vDotH = viewDir.dot(half);
+    if (nDotL <= 0 || nDotV <= 0 || nDotH <= 0) return { r: 0, g: 0, b: 0 };
+
+    const fresnel = fresnelSchlick(f0, vDotH);
+    const factor = (smithG1(nDotV, alpha) * smithG1(nDotL, alpha) * vDotH) / (nDotH * nDotV);
+    return { r: fresnel.r * factor, g: fresnel.g * factor, b: fresnel.b * factor };
+}
+
+function distributionGGX(nDotH: number, alpha: number): number {
+    if (nDotH <= 0) return 0;
+    const a2 = alpha * alpha;
+    const d = nDotH * nDotH * (a2 - 1) + 1;
+    return a2 / (Math.PI * d * d);
+}
+
+function smithG1(nDotX: number, alpha: number): number {
+    const a2 = alpha * alpha;
+    return (2 * nDotX) / (nDotX + Math.sqrt(a2 + (1 - a2) * nDotX * nDotX));
+}
@@ -0,0 +1,77 @@
+import type { RenderPass, ToneMappingSettings } from '../types/scene.types';
+import { DEFAULT_TONE_MAPPING } from './toneMapping';
+
+export const RENDER_PASSES: RenderPass[] = ['beauty', 'depth', 'normal', 'albedo', 'objectId', 'shadow', 'reflection'];
+
+// Hue step between consecutive object IDs, so neighbors get clearly different colors
+const GOLDEN_RATIO_CONJUGATE = 0.618033988749895;
+
+/**
+ * Prepares a pass for viewing. The beauty and reflection passes are radiance
+ * and keep the chosen tone mapping; the data passes are mapped to 0-1 and
+ * shown without it: depth as nearest / depth (the nearest hit is white,
+ * far surfaces fade out), normals as 0.5·n + 0.5, object IDs as one flat
+ * color per object. `colors` stays untouched, so exports can still use the
+ * raw values.
+ */
+export function displayPass(
+    pass: RenderPass,
+    colors: Float32Array,
+    toneMapping: ToneMappingSettings
+): { colors: Float32Array; toneMapping: ToneMappingSettings } {
+    switch (pass) {
+        case 'beauty':
+        case 'reflection':
+            return { colors, toneMapping };
+        case 'depth':
+            return { colors: displayDepth(colors), toneMapping: DEFAULT_TONE_MAPPING };
+        case 'normal':
+            return { colors: displayNormals(colors), toneMapping: DEFAULT_TONE_MAPPING };
+        case 'objectId':
+            return { colors: displayObjectIds(colors), toneMapping: DEFAULT_TONE_MAPPING };
+        default:
+            return { colors, toneMapping: DEFAULT_TONE_MAPPING };
+    }
+}
+
+function displayDepth(colors: Float32Array): Float32Array {
+    let nearest = Infinity;
+    for (let i = 0; i < colors.length; i += 3) {
+        if (colors[i] > 0) nearest = Math.min(nearest, colors[i]);
+    }
+    return colors.map(depth => depth > 0 ? nearest / depth : 0);
+}
+
+function displayNormals(colors: Float32Array): Float32Array {
+    const result = new Float32Array(colors.length);
+    for (let i = 0; i < colors.length; i += 3) {
+        // Background pixels have no normal and stay black
+        if (colors[i] === 0 && colors[i + 1] === 0 && colors[i + 2] === 0) continue;
+        result[i] = 0.5 * colors[i] + 0.5;
+        result[i + 1] = 0.5 * colors[i + 1] + 0.5;
+        result[i + 2] = 0.5 * colors[i + 2] + 0.5;
+    }
+    return result;
+}
+
+function displayObjectIds(colors: Float32Array): Float32Array {
+    const result = new Float32Array(colors.length);
+    for (let i = 0; i < colors.length; i += 3) {
+        const id = Math.round(colors[i]);
+        if (id <= 0) continue;
+        const [r, g, b] = hueToRGB((id * GOLDEN_RATIO_CONJUGATE) % 1);
+        result[i] = r;
+        result[i + 1] = g;
+        result[i + 2] = b;
+    }
+    return result;
+}
+
+// Fully saturated color of hue `h` (0-1), lightened a little
+function hueToRGB(h: number): [number, number, number] {
+    const channel = (offset: number) => {
+        const k = (h * 6 + offset) % 6;
+        return 0.25 + 0.75 * Math.max(0, Math.min(1, Math.min(k, 4 - k)));
+    };
+    return [channel(5), channel(3), channel(1)];
+}
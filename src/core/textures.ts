@@ -0,0 +1,134 @@
+import type { Color, Texture, ImageTexture, UV } from '../types/scene.types';
+import { hashToUnit } from '../math/sampling';
+
+// Fixed permutation so the main thread and every worker see the same noise
+const PERMUTATION = createPermutation();
+
+const MISSING_IMAGE: Color = { r: 1, g: 0, b: 1 };
+
+export function sampleTexture(texture: Texture, uv: UV): Color {
+    switch (texture.type) {
+        case 'checker': {
+            const scale = texture.scale ?? 1;
+            const parity = (Math.floor(uv.u * scale) + Math.floor(uv.v * scale)) & 1;
+            return parity === 0 ? texture.color1 : texture.color2;
+        }
+        case 'gradient': {
+            const t = texture.direction === 'v' ? uv.v : uv.u;
+            return mix(texture.color1, texture.color2, Math.min(1, Math.max(0, t)));
+        }
+        case 'noise': {
+            const scale = texture.scale ?? 1;
+            const value = fractalNoise(uv.u * scale, uv.v * scale, texture.octaves ?? 4);
+            return mix(texture.color1, texture.color2, Math.min(1, Math.max(0, 0.5 + 0.5 * value)));
+        }
+        case 'image':
+            return sampleImage(texture, uv);
+    }
+}
+
+/**
+ * Bilinear lookup with repeat wrapping; v = 0 is the bottom row of the image.
+ */
+function sampleImage(texture: ImageTexture, uv: UV): Color {
+    const image = texture.image;
+    if (!image) return MISSING_IMAGE;
+
+    const scale = texture.scale ?? 1;
+    const x = fract(uv.u * scale) * image.width - 0.5;
+    const y = (1 - fract(uv.v * scale)) * image.height - 0.5;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const texel = (tx: number, ty: number): Color => {
+        const px = ((tx % image.width) + image.width) % image.width;
+        const py = ((ty % image.height) + image.height) % image.height;
+        const index = (py * image.width + px) * 4;
+        return { r: image.data[index] / 255, g: image.data[index + 1] / 255, b: image.data[index + 2] / 255 };
+    };
+
+    const top = mix(texel(x0, y0), texel(x0 + 1, y0), fx);
+    const bottom = mix(texel(x0, y0 + 1), texel(x0 + 1, y0 + 1), fx);
+    return mix(top, bottom, fy);
+}
+
+/**
+ * Sum of Perlin noise octaves, roughly in [-1, 1].
+ */
+function fractalNoise(x: number, y: number, octaves: number): number {
+    let sum = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let total = 0;
+
+    for (let i = 0; i < octaves; i++) {
+        sum += perlin(x * frequency, y * frequency) * amplitude;
+        total += amplitude;
+        amplitude *= 0.5;
+        frequency *= 2;
+    }
+
+    return sum / total;
+}
+
+function perlin(x: number, y: number): number {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const xf = x - xi;
+    const yf = y - yi;
+    const u = fade(xf);
+    const v = fade(yf);
+
+    const hash = (i: number, j: number) => PERMUTATION[(PERMUTATION[i & 255] + j) & 255];
+    const n00 = gradient(hash(xi, yi), xf, yf);
+    const n10 = gradient(hash(xi + 1, yi), xf - 1, yf);
+    const n01 = gradient(hash(xi, yi + 1), xf, yf - 1);
+    const n11 = gradient(hash(xi + 1, yi + 1), xf - 1, yf - 1);
+
+    const nx0 = n00 + u * (n10 - n00);
+    const nx1 = n01 + u * (n11 - n01);
+    // Scale so the result covers about [-1, 1]
+    return (nx0 + v * (nx1 - nx0)) * Math.SQRT2;
+}
+
+function gradient(hash: number, x: number, y: number): number {
+    // One of eight unit directions
+    switch (hash & 7) {
+        case 0: return x;
+        case 1: return -x;
+        case 2: return y;
+        case 3: return -y;
+        case 4: return (x + y) * Math.SQRT1_2;
+        case 5: return (x - y) * Math.SQRT1_2;
+        case 6: return (-x + y) * Math.SQRT1_2;
+        default: return (-x - y) * Math.SQRT1_2;
+    }
+}
+
+function fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function createPermutation(): Uint8Array {
+    const permutation = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) permutation[i] = i;
+    for (let i = 255; i > 0; i--) {
+        const j = Math.floor(hashToUnit(i, 0, 0) * (i + 1));
+        [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+    }
+    return permutation;
+}
+
+function mix(a: Color, b: Color, t: number): Color {
+    return {
+        r: a.r + (b.r - a.r) * t,
+        g: a.g + (b.g - a.g) * t,
+        b: a.b + (b.b - a.b) * t
+    };
+}
+
+function fract(value: number): number {
+    return value - Math.floor(value);
+}
@@ -0,0 +1,21 @@
+import type { Tile } from '../types/scene.types';
+
+export const TILE_SIZE = 32;
+
+/**
+ * Splits the image into tiles of at most `size` × `size` pixels, row by row.
+ */
+export function createTiles(width: number, height: number, size: number = TILE_SIZE): Tile[] {
+    const tiles: Tile[] = [];
+    for (let y = 0; y < height; y += size) {
+        for (let x = 0; x < width; x += size) {
+            tiles.push({
+                x,
+                y,
+                width: Math.min(size, width - x),
+                height: Math.min(size, height - y)
+            });
+        }
+    }
+    return tiles;
+}
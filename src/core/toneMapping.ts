@@ -0,0 +1,63 @@
+import type { ToneMappingOperator, ToneMappingSettings } from '../types/scene.types';
+
+// Matches the plain clamp the renderer always used, so existing scenes look the same
+export const DEFAULT_TONE_MAPPING: ToneMappingSettings = {
+    operator: 'clamp',
+    exposure: 0,
+    srgb: false
+};
+
+/**
+ * Converts linear RGB floats to RGBA bytes, starting at `offset` in `target`:
+ * scales by the exposure (and by `scale`, e.g. 1 / passes for an accumulation
+ * buffer), compresses with the operator and optionally sRGB-encodes. `colors`
+ * is left untouched, so the same buffer can be mapped again with other settings.
+ */
+export function toneMap(
+    colors: Float32Array,
+    target: Uint8ClampedArray,
+    settings: ToneMappingSettings = DEFAULT_TONE_MAPPING,
+    offset: number = 0,
+    scale: number = 1
+): void {
+    const map = createMapper(settings, scale);
+
+    for (let i = 0, j = offset; i < colors.length; i += 3, j += 4) {
+        target[j] = Math.min(255, Math.max(0, map(colors[i]) * 255));
+        target[j + 1] = Math.min(255, Math.max(0, map(colors[i + 1]) * 255));
+        target[j + 2] = Math.min(255, Math.max(0, map(colors[i + 2]) * 255));
+        target[j + 3] = 255;
+    }
+}
+
+/**
+ * Like toneMap, but returns RGB in [0, 1] for encoders with more than 8 bits per channel.
+ */
+export function toneMapFloat(colors: Float32Array, settings: ToneMappingSettings = DEFAULT_TONE_MAPPING, scale: number = 1): Float32Array {
+    const map = createMapper(settings, scale);
+    return colors.map(value => Math.min(1, Math.max(0, map(value))));
+}
+
+function createMapper(settings: ToneMappingSettings, scale: number): (value: number) => number {
+    const factor = scale * Math.pow(2, settings.exposure);
+    const operator = OPERATORS[settings.operator];
+    return settings.srgb
+        ? value => encodeSRGB(operator(value * factor))
+        : value => operator(value * factor);
+}
+
+const OPERATORS: Record<ToneMappingOperator, (value: number) => number> = {
+    // Everything above 1 burns out to white
+    clamp: value => value,
+    reinhard: value => value / (1 + Math.max(0, value)),
+    // Narkowicz's fit of the ACES filmic curve
+    aces: value => {
+        const x = Math.max(0, value);
+        return Math.min(1, (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14));
+    }
+};
+
+function encodeSRGB(value: number): number {
+    const v = Math.min(1, Math.max(0, value));
+    return v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
@@ -0,0 +1,39 @@
+import type { Transform } from '../types/scene.types';
+import { Matrix4 } from '../math/Matrix4';
+
+export interface TransformMatrices {
+    matrix: Matrix4;        // object to world
+    inverse: Matrix4;       // world to object, applied to rays
+    normalMatrix: Matrix4;  // inverse transpose, keeps normals perpendicular under non-uniform scaling
+}
+
+// Scene objects live as long as their scene, so the matrices are built once per transform
+const cache = new WeakMap<Transform, TransformMatrices>();
+
+export function transformToMatrix(transform: Transform): Matrix4 {
+    if (transform.matrix) {
+        return new Matrix4([...transform.matrix]);
+    }
+
+    const scale = typeof transform.scale === 'number'
+        ? { x: transform.scale, y: transform.scale, z: transform.scale }
+        : transform.scale ?? { x: 1, y: 1, z: 1 };
+
+    return Matrix4.translation(transform.translate ?? { x: 0, y: 0, z: 0 })
+        .multiply(Matrix4.rotation(transform.rotate ?? { x: 0, y: 0, z: 0 }))
+        .multiply(Matrix4.scaling(scale));
+}
+
+export function getTransformMatrices(transform: Transform): TransformMatrices {
+    let matrices = cache.get(transform);
+    if (!matrices) {
+        const matrix = transformToMatrix(transform);
+        const inverse = matrix.inverse();
+        if (!inverse) {
+            throw new Error('Transform is not invertible');
+        }
+        matrices = { matrix, inverse, normalMatrix: inverse.transpose() };
+        cache.set(transform, matrices);
+    }
+    return matrices;
+}
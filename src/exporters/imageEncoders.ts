@@ -0,0 +1,290 @@
+/**
+ * DOM-free image encoders for RGBA pixel buffers and linear RGB float
+ * framebuffers, used by the CLI and the browser export, plus a ZIP container
+ * for image sequences.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Binary PPM (P6), 8 bits per channel. Alpha is dropped.
+ */
+export function encodePPM(width: number, height: number, rgba: Uint8ClampedArray): Uint8Array {
+    const header = new TextEncoder().encode(`P6\n${width} ${height}\n255\n`);
+    const output = new Uint8Array(header.length + width * height * 3);
+    output.set(header);
+
+    for (let i = 0, j = header.length; i < width * height * 4; i += 4, j += 3) {
+        output[j] = rgba[i];
+        output[j + 1] = rgba[i + 1];
+        output[j + 2] = rgba[i + 2];
+    }
+
+    return output;
+}
+
+/**
+ * 8-bit RGB PNG. Compression uses the standard CompressionStream, which exists
+ * in browsers and in Node 18+.
+ */
+export async function encodePNG(width: number, height: number, rgba: Uint8ClampedArray): Promise<Uint8Array> {
+    // Every scanline starts with filter type 0 (none)
+    const stride = width * 3 + 1;
+    const raw = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const src = (y * width + x) * 4;
+            const dst = y * stride + 1 + x * 3;
+            raw[dst] = rgba[src];
+            raw[dst + 1] = rgba[src + 1];
+            raw[dst + 2] = rgba[src + 2];
+        }
+    }
+
+    return writePNG(width, height, 8, raw);
+}
+
+/**
+ * 16-bit RGB PNG from RGB values in [0, 1], e.g. the output of toneMapFloat.
+ */
+export async function encodePNG16(width: number, height: number, rgb: Float32Array): Promise<Uint8Array> {
+    const stride = width * 6 + 1;
+    const raw = new Uint8Array(stride * height);
+    const view = new DataView(raw.buffer);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width * 3; x++) {
+            const value = Math.min(1, Math.max(0, rgb[y * width * 3 + x]));
+            view.setUint16(y * stride + 1 + x * 2, Math.round(value * 65535));
+        }
+    }
+
+    return writePNG(width, height, 16, raw);
+}
+
+/**
+ * Radiance .hdr (RGBE) with run-length encoded scanlines. Keeps the full
+ * range of the linear framebuffer, with an 8-bit mantissa per channel.
+ */
+export function encodeHDR(width: number, height: number, colors: Float32Array): Uint8Array {
+    const parts = [new TextEncoder().encode(`#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`)];
+    const scanline = new Uint8Array(width * 4);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 3;
+            scanline.set(toRGBE(colors[i], colors[i + 1], colors[i + 2]), x * 4);
+        }
+
+        // The run-length encoding only covers widths from 8 to 32767
+        if (width < 8 || width > 0x7fff) {
+            parts.push(scanline.slice());
+            continue;
+        }
+
+        const bytes: number[] = [2, 2, width >> 8, width & 0xff];
+        for (let c = 0; c < 4; c++) {
+            encodeRuns(scanline, c, width, bytes);
+        }
+        parts.push(new Uint8Array(bytes));
+    }
+
+    return concatBytes(parts);
+}
+
+/**
+ * Portable float map (PFM): little-endian 32-bit floats, rows from bottom to top.
+ */
+export function encodePFM(width: number, height: number, colors: Float32Array): Uint8Array {
+    // A negative scale marks little-endian data
+    const header = new TextEncoder().encode(`PF\n${width} ${height}\n-1.0\n`);
+    const output = new Uint8Array(header.length + width * height * 12);
+    output.set(header);
+
+    const view = new DataView(output.buffer, header.length);
+    for (let y = 0; y < height; y++) {
+        const row = (height - 1 - y) * width * 3;
+        for (let x = 0; x < width * 3; x++) {
+            view.setFloat32((y * width * 3 + x) * 4, colors[row + x], true);
+        }
+    }
+
+    return output;
+}
+
+async function writePNG(width: number, height: number, bitDepth: number, raw: Uint8Array): Promise<Uint8Array> {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header[8] = bitDepth;
+    header[9] = 2;      // color type: RGB
+    header[10] = 0;     // compression
+    header[11] = 0;     // filter
+    header[12] = 0;     // no interlacing
+
+    return concatBytes([
+        new Uint8Array(PNG_SIGNATURE),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', await deflate(raw)),
+        pngChunk('IEND', new Uint8Array(0))
+    ]);
+}
+
+function toRGBE(r: number, g: number, b: number): number[] {
+    const max = Math.max(r, g, b);
+    if (!(max > 1e-32)) return [0, 0, 0, 0];
+
+    // Shared exponent e with max = m · 2^e and m in [0.5, 1); the checks fix rounding in log2
+    let e = Math.floor(Math.log2(max)) + 1;
+    let scale = Math.pow(2, 8 - e);
+    if (max * scale >= 256) {
+        e++;
+        scale /= 2;
+    } else if (max * scale < 128) {
+        e--;
+        scale *= 2;
+    }
+    if (e + 128 < 1) return [0, 0, 0, 0];
+    if (e + 128 > 255) return [255, 255, 255, 255];
+
+    return [
+        Math.floor(Math.max(0, r) * scale),
+        Math.floor(Math.max(0, g) * scale),
+        Math.floor(Math.max(0, b) * scale),
+        e + 128
+    ];
+}
+
+/**
+ * Run-length encodes channel `c` of an RGBE scanline: runs of 3 or more equal
+ * bytes become (128 + count, value), everything else literal (count, bytes...).
+ */
+function encodeRuns(scanline: Uint8Array, c: number, width: number, out: number[]): void {
+    const value = (x: number) => scanline[x * 4 + c];
+    let x = 0;
+
+    while (x < width) {
+        let run = 1;
+        while (x + run < width && run < 127 && value(x + run) === value(x)) run++;
+
+        if (run >= 3) {
+            out.push(128 + run, value(x));
+            x += run;
+            continue;
+        }
+
+        // Literal block up to the next run of three
+        let count = 0;
+        while (x + count < width && count < 128 &&
+            !(x + count + 2 < width && value(x + count) === value(x + count + 1) && value(x + count) === value(x + count + 2))) {
+            count++;
+        }
+        out.push(count);
+        for (let i = 0; i < count; i++) out.push(value(x + i));
+        x += count;
+    }
+}
+
+/**
+ * Uncompressed ZIP archive of the given files; PNGs are compressed already.
+ * Entries carry a fixed date (1980-01-01), so equal files give equal archives.
+ */
+export function encodeZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+    const parts: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = new TextEncoder().encode(file.name);
+        const crc = crc32(file.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        writeZipEntry(localView, 4, crc, file.data.length, name.length);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, 20, true);     // made by: version 2.0
+        writeZipEntry(centralView, 6, crc, file.data.length, name.length);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        parts.push(local, file.data);
+        directory.push(central);
+        offset += local.length + file.data.length;
+    }
+
+    const directorySize = directory.reduce((sum, entry) => sum + entry.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return concatBytes([...parts, ...directory, end]);
+}
+
+// The fields local headers and central directory entries share, from "version needed" to the extra field length
+function writeZipEntry(view: DataView, offset: number, crc: number, size: number, nameLength: number): void {
+    view.setUint16(offset, 20, true);               // version needed: 2.0
+    view.setUint16(offset + 2, 0x0800, true);       // names are UTF-8
+    view.setUint16(offset + 4, 0, true);            // stored, no compression
+    view.setUint16(offset + 6, 0, true);            // time 00:00
+    view.setUint16(offset + 8, 0x21, true);         // date 1980-01-01
+    view.setUint32(offset + 10, crc, true);
+    view.setUint32(offset + 14, size, true);
+    view.setUint32(offset + 18, size, true);
+    view.setUint16(offset + 22, nameLength, true);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(data.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+    return chunk;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    // 'deflate' is the zlib format that PNG expects
+    const stream = new Blob([data.buffer as ArrayBuffer]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+}
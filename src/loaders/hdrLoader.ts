@@ -0,0 +1,81 @@
+import type { EnvironmentImage } from '../types/scene.types';
+
+/**
+ * Decodes a Radiance .hdr file (RGBE, flat or run-length encoded scanlines) to
+ * linear float RGB. Only the standard orientation "-Y height +X width" is supported.
+ */
+export function decodeHDR(bytes: Uint8Array, fileName: string = 'HDR'): EnvironmentImage {
+    const fail = (message: string): never => {
+        throw new Error(`${fileName}: ${message}`);
+    };
+
+    let offset = 0;
+    const readLine = (): string => {
+        const start = offset;
+        while (offset < bytes.length && bytes[offset] !== 0x0a) offset++;
+        if (offset >= bytes.length) fail('Unexpected end of header');
+        return String.fromCharCode(...bytes.subarray(start, offset++));
+    };
+
+    const magic = readLine();
+    if (!magic.startsWith('#?')) fail('Not a Radiance HDR file');
+
+    // Header variables end with an empty line
+    for (let line = readLine(); line !== ''; line = readLine()) {
+        if (line.startsWith('FORMAT=') && line !== 'FORMAT=32-bit_rle_rgbe') {
+            fail(`Unsupported format ${line.slice(7)}`);
+        }
+    }
+
+    const resolution = /^-Y (\d+) \+X (\d+)$/.exec(readLine().trim());
+    if (!resolution) fail('Unsupported image orientation');
+    const height = Number(resolution![1]);
+    const width = Number(resolution![2]);
+    if (width === 0 || height === 0) fail('Empty image');
+
+    const data = new Float32Array(width * height * 3);
+    const scanline = new Uint8Array(width * 4);
+
+    for (let y = 0; y < height; y++) {
+        if (offset + 4 > bytes.length) fail(`Image data ends at row ${y}`);
+        const rle = width >= 8 && width < 0x8000 && bytes[offset] === 2 && bytes[offset + 1] === 2 && !(bytes[offset + 2] & 0x80);
+
+        if (rle) {
+            if (((bytes[offset + 2] << 8) | bytes[offset + 3]) !== width) fail(`Wrong scanline width in row ${y}`);
+            offset += 4;
+
+            // The four components are stored one after another, each run-length encoded
+            for (let c = 0; c < 4; c++) {
+                for (let x = 0; x < width;) {
+                    if (offset >= bytes.length) fail(`Image data ends at row ${y}`);
+                    let count = bytes[offset++];
+                    if (count > 128) {
+                        count -= 128;
+                        if (x + count > width) fail(`Run too long in row ${y}`);
+                        const value = bytes[offset++];
+                        for (; count > 0; count--) scanline[(x++) * 4 + c] = value;
+                    } else {
+                        if (count === 0 || x + count > width) fail(`Invalid run in row ${y}`);
+                        for (; count > 0; count--) scanline[(x++) * 4 + c] = bytes[offset++];
+                    }
+                }
+            }
+        } else {
+            if (offset + width * 4 > bytes.length) fail(`Image data ends at row ${y}`);
+            scanline.set(bytes.subarray(offset, offset + width * 4));
+            offset += width * 4;
+        }
+
+        for (let x = 0; x < width; x++) {
+            const exponent = scanline[x * 4 + 3];
+            if (exponent === 0) continue;
+            const factor = Math.pow(2, exponent - 136);
+            const index = (y * width + x) * 3;
+            data[index] = scanline[x * 4] * factor;
+            data[index + 1] = scanline[x * 4 + 1] * factor;
+            data[index + 2] = scanline[x * 4 + 2] * factor;
+        }
+    }
+
+    return { width, height, data };
+}
@@ -0,0 +1,367 @@
+import type { Scene, SceneObject, Mesh, Triangle, Material, PhongMaterial, Vec3, UV } from '../types/scene.types';
+import { Vector3 } from '../math/Vector3';
+import { getTransformMatrices } from '../core/transforms';
+
+interface ObjFaceVertex {
+    position: number;
+    texcoord: number;   // -1 when the face has no texture coordinate reference
+    normal: number;     // -1 when the face has no normal reference
+}
+
+interface ObjFace {
+    vertices: ObjFaceVertex[];
+    material: string | null;
+    line: number;
+}
+
+export interface ObjData {
+    positions: Vector3[];
+    normals: Vector3[];
+    texcoords: UV[];
+    faces: ObjFace[];
+    materialLibraries: string[];
+}
+
+const DEFAULT_MATERIAL: PhongMaterial = {
+    color: { r: 0.8, g: 0.8, b: 0.8 },
+    reflectivity: 0,
+    shininess: 32
+};
+
+export type TextReader = (path: string) => Promise<string>;
+
+// Animation frames share the mesh objects they do not animate, so those are only loaded once
+const meshCache = new WeakMap<Mesh, Promise<Triangle[]>>();
+
+/**
+ * Replaces every `mesh` object in the scene with the triangles of its OBJ file.
+ * Paths are resolved relative to `basePath` (the scene file) and loaded with
+ * `readText` (fetch by default).
+ */
+export async function resolveMeshes(scene: Scene, basePath: string = '', readText: TextReader = fetchText): Promise<Scene> {
+    const lists = [scene.objects, ...Object.values(scene.definitions ?? {})];
+    if (!lists.some(objects => objects.some(obj => obj.type === 'mesh'))) {
+        return scene;
+    }
+
+    const expand = async (objects: SceneObject[]): Promise<SceneObject[]> => {
+        const result: SceneObject[] = [];
+        for (const obj of objects) {
+            if (obj.type === 'mesh') {
+                if (!meshCache.has(obj)) {
+                    // A failed load is not cached, so the next render tries again
+                    meshCache.set(obj, loadMesh(obj, basePath, readText).catch((error) => {
+                        meshCache.delete(obj);
+                        throw error;
+                    }));
+                }
+                const triangles = await meshCache.get(obj)!;
+                const velocity = obj.velocity;
+                result.push(...(velocity ? triangles.map(triangle => ({ ...triangle, velocity })) : triangles));
+            } else {
+                result.push(obj);
+            }
+        }
+        return result;
+    };
+
+    // Triangles of a mesh keep the mesh's position in the file, for the object ID pass
+    const objects: SceneObject[] = [];
+    const objectIndices: number[] = [];
+    for (const [index, obj] of scene.objects.entries()) {
+        const expanded = await expand([obj]);
+        objects.push(...expanded);
+        objectIndices.push(...expanded.map(() => index));
+    }
+
+    const resolved: Scene = { ...scene, objects, objectIndices };
+    if (scene.definitions) {
+        resolved.definitions = {};
+        for (const [name, objects] of Object.entries(scene.definitions)) {
+            resolved.definitions[name] = await expand(objects);
+        }
+    }
+    return resolved;
+}
+
+export async function loadMesh(mesh: Mesh, basePath: string = '', readText: TextReader = fetchText): Promise<Triangle[]> {
+    const objPath = resolvePath(basePath, mesh.file);
+    const obj = parseObj(await readText(objPath), mesh.file);
+
+    const materials: Record<string, Material> = {};
+    for (const library of obj.materialLibraries) {
+        const mtlPath = resolvePath(objPath, library);
+        Object.assign(materials, parseMtl(await readText(mtlPath), library));
+    }
+
+    return buildTriangles(obj, materials, mesh);
+}
+
+export function parseObj(text: string, fileName: string = 'OBJ'): ObjData {
+    const data: ObjData = { positions: [], normals: [], texcoords: [], faces: [], materialLibraries: [] };
+    let currentMaterial: string | null = null;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber = i + 1;
+        const line = lines[i].replace(/#.*/, '').trim();
+        if (!line) continue;
+
+        const [keyword, ...args] = line.split(/\s+/);
+        const fail = (message: string): never => {
+            throw new Error(`${fileName}:${lineNumber}: ${message} in "${lines[i].trim()}"`);
+        };
+
+        switch (keyword) {
+            case 'v':
+                data.positions.push(parseVector(args, fail, 'vertex'));
+                break;
+            case 'vn':
+                data.normals.push(parseVector(args, fail, 'normal'));
+                break;
+            case 'vt':
+                if (args.length < 1 || args.some(arg => !isFinite(Number(arg)))) {
+                    fail('Invalid texture coordinate');
+                }
+                data.texcoords.push({ u: Number(args[0]), v: Number(args[1] ?? 0) });
+                break;
+            case 'f': {
+                if (args.length < 3) fail('Face needs at least 3 vertices');
+                const vertices = args.map(arg => parseFaceVertex(arg, data, fail));
+                data.faces.push({ vertices, material: currentMaterial, line: lineNumber });
+                break;
+            }
+            case 'usemtl':
+                if (args.length < 1) fail('Missing material name');
+                currentMaterial = args.join(' ');
+                break;
+            case 'mtllib':
+                if (args.length < 1) fail('Missing material library');
+                data.materialLibraries.push(args.join(' '));
+                break;
+            default:
+                // Groups, objects, smoothing groups, lines and curves carry nothing we render
+                break;
+        }
+    }
+
+    if (data.faces.length === 0) {
+        throw new Error(`${fileName}: No faces found`);
+    }
+
+    return data;
+}
+
+export function parseMtl(text: string, fileName: string = 'MTL'): Record<string, Material> {
+    const materials: Record<string, Material> = {};
+    let current: PhongMaterial | null = null;
+    let specular = 0;
+    let illum = 2;
+
+    const finish = () => {
+        // illum 3 and above enable ray-traced reflections in the MTL spec
+        if (current && illum >= 3) {
+            current.reflectivity = specular;
+        }
+    };
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber = i + 1;
+        const line = lines[i].replace(/#.*/, '').trim();
+        if (!line) continue;
+
+        const [keyword, ...args] = line.split(/\s+/);
+        const fail = (message: string): never => {
+            throw new Error(`${fileName}:${lineNumber}: ${message} in "${lines[i].trim()}"`);
+        };
+        const number = (index: number): number => {
+            const value = Number(args[index]);
+            if (args[index] === undefined || !isFinite(value)) fail('Expected a number');
+            return value;
+        };
+
+        if (keyword === 'newmtl') {
+            finish();
+            if (args.length < 1) fail('Missing material name');
+            current = { ...DEFAULT_MATERIAL, color: { ...DEFAULT_MATERIAL.color } };
+            materials[args.join(' ')] = current;
+            specular = 0;
+            illum = 2;
+            continue;
+        }
+
+        if (!current) {
+            fail('Material statement before "newmtl"');
+        }
+
+        switch (keyword) {
+            case 'Kd':
+                current.color = { r: number(0), g: number(1), b: number(2) };
+                break;
+            case 'Ks':
+                specular = (number(0) + number(1) + number(2)) / 3;
+                break;
+            case 'Ns':
+                current.shininess = Math.max(1, number(0));
+                break;
+            case 'd':
+                current.transparency = 1 - number(0);
+                break;
+            case 'Tr':
+                current.transparency = number(0);
+                break;
+            case 'Ni':
+                current.ior = number(0);
+                break;
+            case 'illum':
+                illum = number(0);
+                break;
+            default:
+                // Texture maps (map_Kd etc.) and other statements are not supported
+                break;
+        }
+    }
+    finish();
+
+    return materials;
+}
+
+function buildTriangles(obj: ObjData, materials: Record<string, Material>, mesh: Mesh): Triangle[] {
+    const transform = createTransform(mesh);
+    const positions = obj.positions.map(transform.point);
+    const normals = obj.normals.map(transform.normal);
+    const vertexNormals = mesh.smooth && normals.length === 0 ? computeVertexNormals(positions, obj.faces) : null;
+    const fallback = mesh.material ?? DEFAULT_MATERIAL;
+
+    const triangles: Triangle[] = [];
+    for (const face of obj.faces) {
+        let material = fallback;
+        if (face.material !== null) {
+            if (!materials[face.material]) {
+                throw new Error(`${mesh.file}:${face.line}: Unknown material "${face.material}"`);
+            }
+            material = materials[face.material];
+        }
+
+        // Fan triangulation for quads and convex polygons
+        for (let k = 1; k < face.vertices.length - 1; k++) {
+            const corners = [face.vertices[0], face.vertices[k], face.vertices[k + 1]];
+            const triangle: Triangle = {
+                type: 'triangle',
+                v0: positions[corners[0].position].toVec3(),
+                v1: positions[corners[1].position].toVec3(),
+                v2: positions[corners[2].position].toVec3(),
+                material
+            };
+
+            if (corners.every(corner => corner.normal >= 0)) {
+                triangle.n0 = normals[corners[0].normal].toVec3();
+                triangle.n1 = normals[corners[1].normal].toVec3();
+                triangle.n2 = normals[corners[2].normal].toVec3();
+            } else if (vertexNormals) {
+                triangle.n0 = vertexNormals[corners[0].position].toVec3();
+                triangle.n1 = vertexNormals[corners[1].position].toVec3();
+                triangle.n2 = vertexNormals[corners[2].position].toVec3();
+            }
+
+            if (corners.every(corner => corner.texcoord >= 0)) {
+                triangle.uv0 = { ...obj.texcoords[corners[0].texcoord] };
+                triangle.uv1 = { ...obj.texcoords[corners[1].texcoord] };
+                triangle.uv2 = { ...obj.texcoords[corners[2].texcoord] };
+            }
+
+            triangles.push(triangle);
+        }
+    }
+
+    return triangles;
+}
+
+function computeVertexNormals(positions: Vector3[], faces: ObjFace[]): Vector3[] {
+    // Area-weighted average of the adjacent face normals
+    const sums = positions.map(() => new Vector3(0, 0, 0));
+    for (const face of faces) {
+        for (let k = 1; k < face.vertices.length - 1; k++) {
+            const i0 = face.vertices[0].position;
+            const i1 = face.vertices[k].position;
+            const i2 = face.vertices[k + 1].position;
+            const faceNormal = positions[i1].subtract(positions[i0]).cross(positions[i2].subtract(positions[i0]));
+            sums[i0] = sums[i0].add(faceNormal);
+            sums[i1] = sums[i1].add(faceNormal);
+            sums[i2] = sums[i2].add(faceNormal);
+        }
+    }
+    return sums.map(sum => sum.normalize());
+}
+
+function createTransform(mesh: Mesh): { point: (p: Vector3) => Vector3; normal: (n: Vector3) => Vector3 } {
+    const scale = typeof mesh.scale === 'number'
+        ? new Vector3(mesh.scale, mesh.scale, mesh.scale)
+        : Vector3.fromVec3(mesh.scale ?? { x: 1, y: 1, z: 1 });
+    const position = Vector3.fromVec3(mesh.position ?? { x: 0, y: 0, z: 0 });
+    const rotation = mesh.rotation ?? { x: 0, y: 0, z: 0 };
+    const rotate = (v: Vector3) => rotateXYZ(v, rotation);
+
+    // An additional transform is baked into the vertices as well
+    const matrices = mesh.transform ? getTransformMatrices(mesh.transform) : null;
+    const point = (p: Vector3) => matrices ? Vector3.fromVec3(matrices.matrix.transformPoint(p)) : p;
+    const normal = (n: Vector3) => matrices ? Vector3.fromVec3(matrices.normalMatrix.transformDirection(n)) : n;
+
+    return {
+        point: (p) => point(rotate(new Vector3(p.x * scale.x, p.y * scale.y, p.z * scale.z)).add(position)),
+        // Normals use the inverse scale so they stay perpendicular under non-uniform scaling
+        normal: (n) => normal(rotate(new Vector3(n.x / scale.x, n.y / scale.y, n.z / scale.z))).normalize()
+    };
+}
+
+function rotateXYZ(v: Vector3, degrees: Vec3): Vector3 {
+    const [ax, ay, az] = [degrees.x, degrees.y, degrees.z].map(d => (d * Math.PI) / 180);
+
+    let { x, y, z } = v;
+    [y, z] = [y * Math.cos(ax) - z * Math.sin(ax), y * Math.sin(ax) + z * Math.cos(ax)];
+    [x, z] = [x * Math.cos(ay) + z * Math.sin(ay), -x * Math.sin(ay) + z * Math.cos(ay)];
+    [x, y] = [x * Math.cos(az) - y * Math.sin(az), x * Math.sin(az) + y * Math.cos(az)];
+    return new Vector3(x, y, z);
+}
+
+function parseVector(args: string[], fail: (message: string) => never, kind: string): Vector3 {
+    if (args.length < 3) fail(`Expected 3 coordinates for ${kind}`);
+    const [x, y, z] = args.slice(0, 3).map(Number);
+    if (![x, y, z].every(isFinite)) fail(`Invalid ${kind} coordinate`);
+    return new Vector3(x, y, z);
+}
+
+function parseFaceVertex(token: string, data: ObjData, fail: (message: string) => never): ObjFaceVertex {
+    // v, v/vt, v//vn or v/vt/vn with 1-based or negative (relative) indices
+    const parts = token.split('/');
+    if (parts.length > 3 || !parts[0]) fail(`Invalid face vertex "${token}"`);
+
+    const resolveIndex = (raw: string, count: number, kind: string): number => {
+        const index = Number(raw);
+        if (!Number.isInteger(index) || index === 0) fail(`Invalid ${kind} index "${raw}"`);
+        const resolved = index > 0 ? index - 1 : count + index;
+        if (resolved < 0 || resolved >= count) fail(`${kind[0].toUpperCase()}${kind.slice(1)} index ${index} out of range (${count} defined)`);
+        return resolved;
+    };
+
+    return {
+        position: resolveIndex(parts[0], data.positions.length, 'vertex'),
+        texcoord: parts[1] ? resolveIndex(parts[1], data.texcoords.length, 'texture coordinate') : -1,
+        normal: parts[2] ? resolveIndex(parts[2], data.normals.length, 'normal') : -1
+    };
+}
+
+async function fetchText(path: string): Promise<string> {
+    const response = await fetch(path);
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status} (${path})`);
+    }
+    return response.text();
+}
+
+export function resolvePath(basePath: string, file: string): string {
+    if (/^([a-z]+:)?\//i.test(file)) return file;
+    const slash = basePath.lastIndexOf('/');
+    return slash >= 0 ? basePath.slice(0, slash + 1) + file : file;
+}
@@ -0,0 +1,242 @@
+import type { EnvironmentImage, Material, Scene, SceneObject, TextureImage } from '../types/scene.types';
+import { resolvePath } from './objLoader';
+import { decodeHDR } from './hdrLoader';
+
+export type BinaryReader = (path: string) => Promise<Uint8Array>;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Channels per pixel for each PNG color type
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Loads the PNG of every image texture in the scene, and the image of an
+ * environment map, and returns a scene whose textures carry the decoded
+ * pixels, so workers receive them together with the scene. The given scene
+ * is left as it is. Paths are resolved relative to `basePath` (the scene file).
+ */
+export async function resolveTextures(scene: Scene, basePath: string = '', readBytes: BinaryReader = fetchBytes): Promise<Scene> {
+    const images = new Map<string, Promise<TextureImage>>();
+    // Mesh triangles share their materials, so each one is copied only once
+    const materials = new Map<Material, Promise<Material>>();
+
+    const resolveMaterial = (material: Material): Promise<Material> => {
+        const texture = material.texture;
+        if (texture?.type !== 'image' || texture.image) return Promise.resolve(material);
+
+        if (!materials.has(material)) {
+            const path = resolvePath(basePath, texture.file);
+            if (!images.has(path)) {
+                images.set(path, readBytes(path).then(bytes => decodePNG(bytes, texture.file)));
+            }
+            materials.set(material, images.get(path)!.then(image => ({ ...material, texture: { ...texture, image } })));
+        }
+        return materials.get(material)!;
+    };
+
+    // CSG children carry their own materials
+    const resolveObjects = async (objects: SceneObject[]): Promise<SceneObject[]> => {
+        const result: SceneObject[] = [];
+        for (const obj of objects) {
+            let resolved = obj;
+            if (obj.type === 'csg') {
+                resolved = { ...obj, children: await resolveObjects(obj.children) };
+            }
+            if (obj.material) {
+                const material = await resolveMaterial(obj.material);
+                if (material !== obj.material) resolved = { ...resolved, material } as SceneObject;
+            }
+            result.push(resolved);
+        }
+        return result;
+    };
+
+    const resolved: Scene = { ...scene, objects: await resolveObjects(scene.objects) };
+    if (scene.definitions) {
+        resolved.definitions = {};
+        for (const [name, objects] of Object.entries(scene.definitions)) {
+            resolved.definitions[name] = await resolveObjects(objects);
+        }
+    }
+
+    const environment = scene.environment;
+    if (environment?.type === 'map' && !environment.image) {
+        const image = await loadEnvironmentImage(await readBytes(resolvePath(basePath, environment.file)), environment.file);
+        resolved.environment = { ...environment, image };
+    }
+
+    return resolved;
+}
+
+/**
+ * Decodes an environment map: .hdr files as they are, PNGs scaled to 0-1.
+ */
+export async function loadEnvironmentImage(bytes: Uint8Array, fileName: string): Promise<EnvironmentImage> {
+    if (fileName.toLowerCase().endsWith('.hdr')) return decodeHDR(bytes, fileName);
+
+    const { width, height, data } = await decodePNG(bytes, fileName);
+    const rgb = new Float32Array(width * height * 3);
+    for (let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+        rgb[i] = data[j] / 255;
+        rgb[i + 1] = data[j + 1] / 255;
+        rgb[i + 2] = data[j + 2] / 255;
+    }
+    return { width, height, data: rgb };
+}
+
+/**
+ * Decodes a non-interlaced PNG of any color type and bit depth to 8-bit RGBA.
+ */
+export async function decodePNG(bytes: Uint8Array, fileName: string = 'PNG'): Promise<TextureImage> {
+    const fail = (message: string): never => {
+        throw new Error(`${fileName}: ${message}`);
+    };
+
+    if (bytes.length < 8 || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) {
+        fail('Not a PNG file');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let width = 0;
+    let height = 0;
+    let bitDepth = 0;
+    let colorType = -1;
+    let palette: Uint8Array | null = null;
+    let paletteAlpha: Uint8Array | null = null;
+    const data: Uint8Array[] = [];
+
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+        if (chunk.length < length) fail(`Truncated ${type} chunk`);
+        offset += length + 12;
+
+        if (type === 'IHDR') {
+            width = view.getUint32(chunk.byteOffset - bytes.byteOffset);
+            height = view.getUint32(chunk.byteOffset - bytes.byteOffset + 4);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            if (!(colorType in PNG_CHANNELS)) fail(`Unsupported color type ${colorType}`);
+            if (chunk[12] !== 0) fail('Interlaced PNGs are not supported');
+        } else if (type === 'PLTE') {
+            palette = chunk;
+        } else if (type === 'tRNS' && colorType === 3) {
+            paletteAlpha = chunk;
+        } else if (type === 'IDAT') {
+            data.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+    }
+
+    if (width === 0 || height === 0) fail('Missing image header');
+    if (data.length === 0) fail('Missing image data');
+    if (colorType === 3 && !palette) fail('Missing palette');
+
+    const channels = PNG_CHANNELS[colorType];
+    const bitsPerPixel = channels * bitDepth;
+    const stride = Math.ceil((width * bitsPerPixel) / 8);
+    const raw = await inflate(data);
+    if (raw.length < (stride + 1) * height) fail('Image data is too short');
+
+    const pixels = unfilter(raw, stride, height, Math.max(1, bitsPerPixel / 8), fail);
+
+    // Reads channel `c` of pixel `x` in row `y`, scaled to 0-255 (palette indices unscaled)
+    const sample = (y: number, x: number, c: number): number => {
+        const row = y * stride;
+        if (bitDepth === 8) return pixels[row + x * channels + c];
+        if (bitDepth === 16) return pixels[row + (x * channels + c) * 2];
+
+        const bit = (x * channels + c) * bitDepth;
+        const value = (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+        return colorType === 3 ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+    };
+
+    const rgba = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            switch (colorType) {
+                case 0:
+                case 4:
+                    rgba[i] = rgba[i + 1] = rgba[i + 2] = sample(y, x, 0);
+                    rgba[i + 3] = colorType === 4 ? sample(y, x, 1) : 255;
+                    break;
+                case 2:
+                case 6:
+                    rgba[i] = sample(y, x, 0);
+                    rgba[i + 1] = sample(y, x, 1);
+                    rgba[i + 2] = sample(y, x, 2);
+                    rgba[i + 3] = colorType === 6 ? sample(y, x, 3) : 255;
+                    break;
+                case 3: {
+                    const index = sample(y, x, 0);
+                    if (index * 3 + 2 >= palette!.length) fail(`Palette index ${index} out of range`);
+                    rgba[i] = palette![index * 3];
+                    rgba[i + 1] = palette![index * 3 + 1];
+                    rgba[i + 2] = palette![index * 3 + 2];
+                    rgba[i + 3] = paletteAlpha && index < paletteAlpha.length ? paletteAlpha[index] : 255;
+                    break;
+                }
+            }
+        }
+    }
+
+    return { width, height, data: rgba };
+}
+
+function unfilter(raw: Uint8Array, stride: number, height: number, bytesPerPixel: number, fail: (message: string) => never): Uint8Array {
+    const pixels = new Uint8Array(stride * height);
+    const bpp = Math.ceil(bytesPerPixel);
+
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const src = y * (stride + 1) + 1;
+        const row = y * stride;
+        const prev = row - stride;
+
+        for (let x = 0; x < stride; x++) {
+            const a = x >= bpp ? pixels[row + x - bpp] : 0;
+            const b = y > 0 ? pixels[prev + x] : 0;
+            const c = x >= bpp && y > 0 ? pixels[prev + x - bpp] : 0;
+            let predictor: number;
+
+            switch (filter) {
+                case 0: predictor = 0; break;
+                case 1: predictor = a; break;
+                case 2: predictor = b; break;
+                case 3: predictor = (a + b) >> 1; break;
+                case 4: {
+                    const p = a + b - c;
+                    const pa = Math.abs(p - a);
+                    const pb = Math.abs(p - b);
+                    const pc = Math.abs(p - c);
+                    predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+                    break;
+                }
+                default:
+                    return fail(`Invalid filter type ${filter} in row ${y}`);
+            }
+
+            pixels[row + x] = (raw[src + x] + predictor) & 0xff;
+        }
+    }
+
+    return pixels;
+}
+
+async function inflate(chunks: Uint8Array[]): Promise<Uint8Array> {
+    // The IDAT chunks together form one zlib stream
+    const stream = new Blob(chunks.map(chunk => chunk.slice().buffer as ArrayBuffer)).stream()
+        .pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function fetchBytes(path: string): Promise<Uint8Array> {
+    const response = await fetch(path);
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status} (${path})`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
@@ -1,6 +1,8 @@
 import { RaytracerApp } from './app/RaytracerApp';
 import { Raytracer } from './core/Raytracer';
 import { getDefaultScene } from './scenes/defaultScene';
+import { validateScene, SceneValidationError } from './scenes/sceneValidator';
+import { RenderCancelledError } from './core/RenderCancelledError';
 
 // ============= INITIALIZATION =============
 let app: RaytracerApp;
@@ -18,6 +20,7 @@ window.addEventListener('DOMContentLoaded', () => {
         // Globale Verfügbarkeit
         (window as any).raytracerApp = app;
         (window as any).getDefaultScene = getDefaultScene;
+        (window as any).validateScene = validateScene;
         console.log('✅ Global variables set');
 
         // Default scene laden
@@ -50,4 +53,4 @@ window.addEventListener('DOMContentLoaded', () => {
     }
 });
 
-export { RaytracerApp, Raytracer, getDefaultScene };
\ No newline at end of file
+export { RaytracerApp, Raytracer, getDefaultScene, validateScene, SceneValidationError, RenderCancelledError };
\ No newline at end of file
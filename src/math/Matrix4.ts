@@ -0,0 +1,123 @@
+import type { Vec3 } from '../types/scene.types';
+
+/**
+ * 4×4 affine matrix, row-major, acting on column vectors (p' = M · p), so the
+ * translation sits in elements 3, 7 and 11.
+ */
+export class Matrix4 {
+    constructor(public elements: number[]) {}
+
+    static identity(): Matrix4 {
+        return new Matrix4([
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 1, 0,
+            0, 0, 0, 1
+        ]);
+    }
+
+    static translation(v: Vec3): Matrix4 {
+        return new Matrix4([
+            1, 0, 0, v.x,
+            0, 1, 0, v.y,
+            0, 0, 1, v.z,
+            0, 0, 0, 1
+        ]);
+    }
+
+    static scaling(v: Vec3): Matrix4 {
+        return new Matrix4([
+            v.x, 0, 0, 0,
+            0, v.y, 0, 0,
+            0, 0, v.z, 0,
+            0, 0, 0, 1
+        ]);
+    }
+
+    /**
+     * Rotation by Euler angles in degrees, applied in the order X, Y, Z.
+     */
+    static rotation(degrees: Vec3): Matrix4 {
+        const [ax, ay, az] = [degrees.x, degrees.y, degrees.z].map(d => (d * Math.PI) / 180);
+        const [cx, sx, cy, sy, cz, sz] = [Math.cos(ax), Math.sin(ax), Math.cos(ay), Math.sin(ay), Math.cos(az), Math.sin(az)];
+
+        const rx = new Matrix4([1, 0, 0, 0, 0, cx, -sx, 0, 0, sx, cx, 0, 0, 0, 0, 1]);
+        const ry = new Matrix4([cy, 0, sy, 0, 0, 1, 0, 0, -sy, 0, cy, 0, 0, 0, 0, 1]);
+        const rz = new Matrix4([cz, -sz, 0, 0, sz, cz, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+        return rz.multiply(ry).multiply(rx);
+    }
+
+    multiply(other: Matrix4): Matrix4 {
+        const a = this.elements;
+        const b = other.elements;
+        const result: number[] = new Array(16);
+        for (let row = 0; row < 4; row++) {
+            for (let col = 0; col < 4; col++) {
+                result[row * 4 + col] =
+                    a[row * 4] * b[col] +
+                    a[row * 4 + 1] * b[4 + col] +
+                    a[row * 4 + 2] * b[8 + col] +
+                    a[row * 4 + 3] * b[12 + col];
+            }
+        }
+        return new Matrix4(result);
+    }
+
+    transpose(): Matrix4 {
+        const m = this.elements;
+        return new Matrix4([
+            m[0], m[4], m[8], m[12],
+            m[1], m[5], m[9], m[13],
+            m[2], m[6], m[10], m[14],
+            m[3], m[7], m[11], m[15]
+        ]);
+    }
+
+    /**
+     * General inverse by cofactor expansion; null for singular matrices.
+     */
+    inverse(): Matrix4 | null {
+        const m = this.elements;
+        const inv: number[] = new Array(16);
+
+        inv[0] = m[5] * m[10] * m[15] - m[5] * m[11] * m[14] - m[9] * m[6] * m[15] + m[9] * m[7] * m[14] + m[13] * m[6] * m[11] - m[13] * m[7] * m[10];
+        inv[4] = -m[4] * m[10] * m[15] + m[4] * m[11] * m[14] + m[8] * m[6] * m[15] - m[8] * m[7] * m[14] - m[12] * m[6] * m[11] + m[12] * m[7] * m[10];
+        inv[8] = m[4] * m[9] * m[15] - m[4] * m[11] * m[13] - m[8] * m[5] * m[15] + m[8] * m[7] * m[13] + m[12] * m[5] * m[11] - m[12] * m[7] * m[9];
+        inv[12] = -m[4] * m[9] * m[14] + m[4] * m[10] * m[13] + m[8] * m[5] * m[14] - m[8] * m[6] * m[13] - m[12] * m[5] * m[10] + m[12] * m[6] * m[9];
+        inv[1] = -m[1] * m[10] * m[15] + m[1] * m[11] * m[14] + m[9] * m[2] * m[15] - m[9] * m[3] * m[14] - m[13] * m[2] * m[11] + m[13] * m[3] * m[10];
+        inv[5] = m[0] * m[10] * m[15] - m[0] * m[11] * m[14] - m[8] * m[2] * m[15] + m[8] * m[3] * m[14] + m[12] * m[2] * m[11] - m[12] * m[3] * m[10];
+        inv[9] = -m[0] * m[9] * m[15] + m[0] * m[11] * m[13] + m[8] * m[1] * m[15] - m[8] * m[3] * m[13] - m[12] * m[1] * m[11] + m[12] * m[3] * m[9];
+        inv[13] = m[0] * m[9] * m[14] - m[0] * m[10] * m[13] - m[8] * m[1] * m[14] + m[8] * m[2] * m[13] + m[12] * m[1] * m[10] - m[12] * m[2] * m[9];
+        inv[2] = m[1] * m[6] * m[15] - m[1] * m[7] * m[14] - m[5] * m[2] * m[15] + m[5] * m[3] * m[14] + m[13] * m[2] * m[7] - m[13] * m[3] * m[6];
+        inv[6] = -m[0] * m[6] * m[15] + m[0] * m[7] * m[14] + m[4] * m[2] * m[15] - m[4] * m[3] * m[14] - m[12] * m[2] * m[7] + m[12] * m[3] * m[6];
+        inv[10] = m[0] * m[5] * m[15] - m[0] * m[7] * m[13] - m[4] * m[1] * m[15] + m[4] * m[3] * m[13] + m[12] * m[1] * m[7] - m[12] * m[3] * m[5];
+        inv[14] = -m[0] * m[5] * m[14] + m[0] * m[6] * m[13] + m[4] * m[1] * m[14] - m[4] * m[2] * m[13] - m[12] * m[1] * m[6] + m[12] * m[2] * m[5];
+        inv[3] = -m[1] * m[6] * m[11] + m[1] * m[7] * m[10] + m[5] * m[2] * m[11] - m[5] * m[3] * m[10] - m[9] * m[2] * m[7] + m[9] * m[3] * m[6];
+        inv[7] = m[0] * m[6] * m[11] - m[0] * m[7] * m[10] - m[4] * m[2] * m[11] + m[4] * m[3] * m[10] + m[8] * m[2] * m[7] - m[8] * m[3] * m[6];
+        inv[11] = -m[0] * m[5] * m[11] + m[0] * m[7] * m[9] + m[4] * m[1] * m[11] - m[4] * m[3] * m[9] - m[8] * m[1] * m[7] + m[8] * m[3] * m[5];
+        inv[15] = m[0] * m[5] * m[10] - m[0] * m[6] * m[9] - m[4] * m[1] * m[10] + m[4] * m[2] * m[9] + m[8] * m[1] * m[6] - m[8] * m[2] * m[5];
+
+        const det = m[0] * inv[0] + m[1] * inv[4] + m[2] * inv[8] + m[3] * inv[12];
+        if (Math.abs(det) < 1e-12) return null;
+
+        return new Matrix4(inv.map(value => value / det));
+    }
+
+    transformPoint(p: Vec3): Vec3 {
+        const m = this.elements;
+        return {
+            x: m[0] * p.x + m[1] * p.y + m[2] * p.z + m[3],
+            y: m[4] * p.x + m[5] * p.y + m[6] * p.z + m[7],
+            z: m[8] * p.x + m[9] * p.y + m[10] * p.z + m[11]
+        };
+    }
+
+    transformDirection(v: Vec3): Vec3 {
+        const m = this.elements;
+        return {
+            x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+            y: m[4] * v.x + m[5] * v.y + m[6] * v.z,
+            z: m[8] * v.x + m[9] * v.y + m[10] * v.z
+        };
+    }
+}
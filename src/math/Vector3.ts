@@ -45,6 +45,15 @@ export class Vector3 {
         return this.subtract(normal.multiply(2 * this.dot(normal)));
     }
 
+    refract(normal: Vector3, eta: number): Vector3 | null {
+        // Snell's law; returns null on total internal reflection
+        const cosI = -this.dot(normal);
+        const sinT2 = eta * eta * (1 - cosI * cosI);
+        if (sinT2 > 1) return null;
+        const cosT = Math.sqrt(1 - sinT2);
+        return this.multiply(eta).add(normal.multiply(eta * cosI - cosT));
+    }
+
     toVec3(): Vec3 {
         return { x: this.x, y: this.y, z: this.z };
     }
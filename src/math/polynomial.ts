@@ -0,0 +1,118 @@
+/**
+ * Real roots of low-order polynomials, in ascending order. Coefficients are
+ * given from the highest power down.
+ */
+
+const EPSILON = 1e-9;
+
+/**
+ * a·x² + b·x + c = 0, falling back to the linear case for a ≈ 0.
+ */
+export function solveQuadratic(a: number, b: number, c: number): number[] {
+    if (Math.abs(a) < 1e-12) {
+        return Math.abs(b) < 1e-12 ? [] : [-c / b];
+    }
+
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+
+    // Avoids cancellation between -b and the square root
+    const q = -0.5 * (b + Math.sign(b || 1) * Math.sqrt(discriminant));
+    const roots = q === 0 ? [0, 0] : [q / a, c / q];
+    return roots.sort((x, y) => x - y);
+}
+
+/**
+ * x³ + a·x² + b·x + c = 0 (normalized), by Cardano's method.
+ */
+export function solveCubic(a: number, b: number, c: number): number[] {
+    // Substitute x = y - a/3 to get y³ + 3p·y + 2q = 0
+    const sq = a * a;
+    const p = (1 / 3) * (-(1 / 3) * sq + b);
+    const q = 0.5 * ((2 / 27) * a * sq - (1 / 3) * a * b + c);
+    const p3 = p * p * p;
+    const discriminant = q * q + p3;
+    const shift = a / 3;
+    let roots: number[];
+
+    if (Math.abs(discriminant) < EPSILON) {
+        if (Math.abs(q) < EPSILON) {
+            roots = [0];
+        } else {
+            const u = Math.cbrt(-q);
+            roots = [2 * u, -u];
+        }
+    } else if (discriminant < 0) {
+        // Three real roots
+        const phi = (1 / 3) * Math.acos(-q / Math.sqrt(-p3));
+        const t = 2 * Math.sqrt(-p);
+        roots = [t * Math.cos(phi), -t * Math.cos(phi + Math.PI / 3), -t * Math.cos(phi - Math.PI / 3)];
+    } else {
+        const sqrtD = Math.sqrt(discriminant);
+        roots = [Math.cbrt(sqrtD - q) - Math.cbrt(sqrtD + q)];
+    }
+
+    return roots.map(root => root - shift).sort((x, y) => x - y);
+}
+
+/**
+ * a·x⁴ + b·x³ + c·x² + d·x + e = 0 by Ferrari's method. The roots are polished
+ * with Newton steps, which the closed form needs for ray tracing precision.
+ */
+export function solveQuartic(a: number, b: number, c: number, d: number, e: number): number[] {
+    if (Math.abs(a) < 1e-12) return [];
+
+    // Normalize and substitute x = y - b/4 to get y⁴ + p·y² + q·y + r = 0
+    const A = b / a;
+    const B = c / a;
+    const C = d / a;
+    const D = e / a;
+    const sq = A * A;
+    const p = -(3 / 8) * sq + B;
+    const q = (1 / 8) * sq * A - (1 / 2) * A * B + C;
+    const r = -(3 / 256) * sq * sq + (1 / 16) * sq * B - (1 / 4) * A * C + D;
+    let roots: number[];
+
+    if (Math.abs(r) < EPSILON) {
+        // y(y³ + p·y + q) = 0
+        roots = [0, ...solveCubic(0, p, q)];
+    } else {
+        // A real root of the resolvent cubic splits the quartic into two quadratics;
+        // the largest one keeps both square roots real
+        const resolvent = solveCubic(-(1 / 2) * p, -r, (1 / 2) * r * p - (1 / 8) * q * q);
+        const z = resolvent[resolvent.length - 1];
+        let u = z * z - r;
+        let v = 2 * z - p;
+
+        if (Math.abs(u) < EPSILON) u = 0;
+        else if (u > 0) u = Math.sqrt(u);
+        else return [];
+
+        if (Math.abs(v) < EPSILON) v = 0;
+        else if (v > 0) v = Math.sqrt(v);
+        else return [];
+
+        roots = [
+            ...solveQuadratic(1, q < 0 ? -v : v, z - u),
+            ...solveQuadratic(1, q < 0 ? v : -v, z + u)
+        ];
+    }
+
+    return roots
+        .map(root => polish(root - A / 4, [a, b, c, d, e]))
+        .sort((x, y) => x - y);
+}
+
+function polish(root: number, coefficients: number[]): number {
+    for (let i = 0; i < 2; i++) {
+        let value = 0;
+        let derivative = 0;
+        for (const coefficient of coefficients) {
+            derivative = derivative * root + value;
+            value = value * root + coefficient;
+        }
+        if (derivative === 0) break;
+        root -= value / derivative;
+    }
+    return root;
+}
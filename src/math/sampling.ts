@@ -0,0 +1,62 @@
+import type { Vec3 } from '../types/scene.types';
+import { Vector3 } from './Vector3';
+
+/**
+ * Builds two tangents that form an orthonormal basis with `axis`.
+ */
+export function buildBasis(axis: Vec3): [Vector3, Vector3] {
+    const w = Vector3.fromVec3(axis).normalize();
+    const helper = Math.abs(w.x) > 0.9 ? new Vector3(0, 1, 0) : new Vector3(1, 0, 0);
+    const u = helper.cross(w).normalize();
+    const v = w.cross(u);
+    return [u, v];
+}
+
+/**
+ * Cosine-weighted direction in the hemisphere around `normal` (pdf = cos θ / π).
+ */
+export function sampleCosineHemisphere(normal: Vec3): Vector3 {
+    const r1 = Math.random();
+    const r2 = Math.random();
+    const phi = 2 * Math.PI * r1;
+    const r = Math.sqrt(r2);
+
+    return fromLocal(normal, r * Math.cos(phi), r * Math.sin(phi), Math.sqrt(1 - r2));
+}
+
+/**
+ * Direction distributed around `axis` with the normalized Phong lobe cos^exponent.
+ */
+export function samplePhongLobe(axis: Vec3, exponent: number): Vector3 {
+    const r1 = Math.random();
+    const r2 = Math.random();
+    const phi = 2 * Math.PI * r1;
+    const cosTheta = Math.pow(r2, 1 / (exponent + 1));
+    const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+
+    return fromLocal(axis, sinTheta * Math.cos(phi), sinTheta * Math.sin(phi), cosTheta);
+}
+
+function fromLocal(axis: Vec3, x: number, y: number, z: number): Vector3 {
+    const [u, v] = buildBasis(axis);
+    const w = Vector3.fromVec3(axis).normalize();
+    return u.multiply(x).add(v.multiply(y)).add(w.multiply(z)).normalize();
+}
+
+/**
+ * Deterministic hash of three integers, mapped to [0, 1).
+ */
+export function hashToUnit(a: number, b: number, c: number): number {
+    let h = Math.imul(a, 0x27d4eb2d) ^ Math.imul(b, 0x165667b1) ^ Math.imul(c + 1, 0x9e3779b9);
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+}
+
+/**
+ * Fractional part, wrapping values back into [0, 1) (e.g. offset sample positions).
+ */
+export function wrap(value: number): number {
+    return value - Math.floor(value);
+}
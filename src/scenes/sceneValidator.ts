@@ -0,0 +1,853 @@
+import type { Scene, Transform } from '../types/scene.types';
+import { transformToMatrix } from '../core/transforms';
+import { parseTargetPath } from '../core/animation';
+
+export interface ValidationIssue {
+    path: string;       // JSON path such as "objects[3].material.shininess"
+    message: string;
+}
+
+export class SceneValidationError extends Error {
+    constructor(public issues: ValidationIssue[]) {
+        super(`Invalid scene (${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}):\n` +
+            issues.map(issue => `  ${issue.path || '<root>'}: ${issue.message}`).join('\n'));
+        this.name = 'SceneValidationError';
+    }
+}
+
+type FieldSpec =
+    | { kind: 'number'; required?: boolean; default?: number; min?: number; max?: number; exclusiveMin?: boolean; integer?: boolean }
+    | { kind: 'string'; required?: boolean; default?: string; oneOf?: string[] }
+    | { kind: 'boolean'; required?: boolean; default?: boolean }
+    | { kind: 'vec3'; required?: boolean; default?: { x: number; y: number; z: number }; nonZero?: boolean }
+    | { kind: 'color'; required?: boolean; default?: { r: number; g: number; b: number } }
+    | { kind: 'uv'; required?: boolean }
+    | { kind: 'vec3OrNumber'; required?: boolean }
+    | { kind: 'animatable'; required?: boolean }
+    | { kind: 'stringOrObject'; required?: boolean; oneOf: string[]; fields: Record<string, FieldSpec> }
+    | { kind: 'object'; required?: boolean; fields: Record<string, FieldSpec> }
+    | { kind: 'variant'; required?: boolean; defaultType?: string; schemas: Record<string, Record<string, FieldSpec>> }
+    | { kind: 'matrix'; required?: boolean }
+    | { kind: 'array'; required?: boolean; default?: unknown[]; item: (value: unknown, path: string, issues: ValidationIssue[]) => unknown }
+    | { kind: 'record'; required?: boolean; item: (value: unknown, path: string, issues: ValidationIssue[]) => unknown };
+
+type Schema = Record<string, FieldSpec>;
+
+const TEXTURE_SCALE: FieldSpec = { kind: 'number', default: 1, min: 0, exclusiveMin: true };
+
+const TEXTURE_SCHEMAS: Record<string, Schema> = {
+    checker: {
+        type: { kind: 'string' },
+        color1: { kind: 'color', default: { r: 1, g: 1, b: 1 } },
+        color2: { kind: 'color', default: { r: 0, g: 0, b: 0 } },
+        scale: TEXTURE_SCALE
+    },
+    gradient: {
+        type: { kind: 'string' },
+        color1: { kind: 'color', default: { r: 0, g: 0, b: 0 } },
+        color2: { kind: 'color', default: { r: 1, g: 1, b: 1 } },
+        direction: { kind: 'string', default: 'u', oneOf: ['u', 'v'] }
+    },
+    noise: {
+        type: { kind: 'string' },
+        color1: { kind: 'color', default: { r: 0, g: 0, b: 0 } },
+        color2: { kind: 'color', default: { r: 1, g: 1, b: 1 } },
+        scale: TEXTURE_SCALE,
+        octaves: { kind: 'number', default: 4, min: 1, max: 12, integer: true }
+    },
+    image: {
+        type: { kind: 'string' },
+        file: { kind: 'string', required: true },
+        scale: TEXTURE_SCALE
+    }
+};
+
+const MATERIAL_COMMON: Schema = {
+    type: { kind: 'string' },
+    transparency: { kind: 'number', default: 0, min: 0, max: 1 },
+    ior: { kind: 'number', default: 1.5, min: 0, exclusiveMin: true },
+    emission: { kind: 'color' },
+    texture: { kind: 'variant', schemas: TEXTURE_SCHEMAS }
+};
+
+const MATERIAL_SCHEMAS: Record<string, Schema> = {
+    phong: {
+        ...MATERIAL_COMMON,
+        color: { kind: 'color', required: true },
+        reflectivity: { kind: 'number', default: 0, min: 0, max: 1 },
+        shininess: { kind: 'number', default: 32, min: 0 }
+    },
+    pbr: {
+        ...MATERIAL_COMMON,
+        baseColor: { kind: 'color', required: true },
+        metallic: { kind: 'number', default: 0, min: 0, max: 1 },
+        roughness: { kind: 'number', default: 0.5, min: 0, max: 1 }
+    }
+};
+
+const MATERIAL: FieldSpec = { kind: 'variant', required: true, defaultType: 'phong', schemas: MATERIAL_SCHEMAS };
+
+const OPTIONAL_MATERIAL: FieldSpec = { kind: 'variant', defaultType: 'phong', schemas: MATERIAL_SCHEMAS };
+
+const TRANSFORM: FieldSpec = {
+    kind: 'object',
+    fields: {
+        translate: { kind: 'vec3' },
+        rotate: { kind: 'vec3' },
+        scale: { kind: 'vec3OrNumber' },
+        matrix: { kind: 'matrix' }
+    }
+};
+
+const CAMERA_SCHEMA: Schema = {
+    position: { kind: 'vec3', required: true },
+    target: { kind: 'vec3', required: true },
+    fov: { kind: 'number', default: 60, min: 0, max: 180, exclusiveMin: true },
+    up: { kind: 'vec3', default: { x: 0, y: 1, z: 0 }, nonZero: true },
+    projection: { kind: 'string', default: 'perspective', oneOf: ['perspective', 'orthographic', 'fisheye', 'equirectangular'] },
+    orthoHeight: { kind: 'number', min: 0, exclusiveMin: true },
+    aperture: { kind: 'number', default: 0, min: 0 },
+    focusDistance: { kind: 'number', min: 0, exclusiveMin: true },
+    focusPoint: { kind: 'vec3' },
+    shutterOpen: { kind: 'number', default: 0 },
+    shutterClose: { kind: 'number' }
+};
+
+const LIGHT_COMMON: Schema = {
+    type: { kind: 'string' },
+    position: { kind: 'vec3', required: true },
+    color: { kind: 'color', default: { r: 1, g: 1, b: 1 } },
+    intensity: { kind: 'number', default: 1, min: 0 },
+    attenuation: {
+        kind: 'stringOrObject',
+        oneOf: ['none', 'linear', 'inverseSquare'],
+        fields: {
+            constant: { kind: 'number', default: 0, min: 0 },
+            linear: { kind: 'number', default: 0, min: 0 },
+            quadratic: { kind: 'number', default: 0, min: 0 }
+        }
+    }
+};
+
+const AREA_SAMPLES: FieldSpec = { kind: 'number', default: 16, min: 1, integer: true };
+
+const LIGHT_SCHEMAS: Record<string, Schema> = {
+    point: { ...LIGHT_COMMON },
+    rect: { ...LIGHT_COMMON, u: { kind: 'vec3', required: true, nonZero: true }, v: { kind: 'vec3', required: true, nonZero: true }, samples: AREA_SAMPLES },
+    disk: { ...LIGHT_COMMON, normal: { kind: 'vec3', required: true, nonZero: true }, radius: { kind: 'number', required: true, min: 0, exclusiveMin: true }, samples: AREA_SAMPLES },
+    sphere: { ...LIGHT_COMMON, radius: { kind: 'number', required: true, min: 0, exclusiveMin: true }, samples: AREA_SAMPLES },
+    spot: {
+        ...LIGHT_COMMON,
+        direction: { kind: 'vec3', required: true, nonZero: true },
+        angle: { kind: 'number', required: true, min: 0, max: 180, exclusiveMin: true },
+        falloff: { kind: 'number', default: 0.2, min: 0, max: 1 }
+    },
+    directional: {
+        type: { kind: 'string' },
+        direction: { kind: 'vec3', required: true, nonZero: true },
+        color: { kind: 'color', default: { r: 1, g: 1, b: 1 } },
+        intensity: { kind: 'number', default: 1, min: 0 }
+    }
+};
+
+const POSITIVE: FieldSpec = { kind: 'number', required: true, min: 0, exclusiveMin: true };
+
+const OBJECT_SCHEMAS: Record<string, Schema> = {
+    sphere: {
+        type: { kind: 'string' },
+        center: { kind: 'vec3', required: true },
+        radius: { kind: 'number', required: true, min: 0, exclusiveMin: true },
+        material: MATERIAL,
+        transform: TRANSFORM,
+        velocity: { kind: 'vec3' }
+    },
+    plane: {
+        type: { kind: 'string' },
+        point: { kind: 'vec3', required: true },
+        normal: { kind: 'vec3', required: true, nonZero: true },
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    triangle: {
+        type: { kind: 'string' },
+        v0: { kind: 'vec3', required: true },
+        v1: { kind: 'vec3', required: true },
+        v2: { kind: 'vec3', required: true },
+        n0: { kind: 'vec3' },
+        n1: { kind: 'vec3' },
+        n2: { kind: 'vec3' },
+        uv0: { kind: 'uv' },
+        uv1: { kind: 'uv' },
+        uv2: { kind: 'uv' },
+        material: MATERIAL,
+        transform: TRANSFORM,
+        velocity: { kind: 'vec3' }
+    },
+    box: {
+        type: { kind: 'string' },
+        min: { kind: 'vec3', required: true },
+        max: { kind: 'vec3', required: true },
+        material: MATERIAL,
+        transform: TRANSFORM,
+        velocity: { kind: 'vec3' }
+    },
+    cylinder: {
+        type: { kind: 'string' },
+        base: { kind: 'vec3', required: true },
+        top: { kind: 'vec3', required: true },
+        radius: POSITIVE,
+        capped: { kind: 'boolean', default: true },
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    cone: {
+        type: { kind: 'string' },
+        base: { kind: 'vec3', required: true },
+        top: { kind: 'vec3', required: true },
+        radius: POSITIVE,
+        topRadius: { kind: 'number', default: 0, min: 0 },
+        capped: { kind: 'boolean', default: true },
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    disk: {
+        type: { kind: 'string' },
+        center: { kind: 'vec3', required: true },
+        normal: { kind: 'vec3', required: true, nonZero: true },
+        radius: POSITIVE,
+        innerRadius: { kind: 'number', default: 0, min: 0 },
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    torus: {
+        type: { kind: 'string' },
+        center: { kind: 'vec3', required: true },
+        axis: { kind: 'vec3', default: { x: 0, y: 1, z: 0 }, nonZero: true },
+        majorRadius: POSITIVE,
+        minorRadius: POSITIVE,
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    capsule: {
+        type: { kind: 'string' },
+        base: { kind: 'vec3', required: true },
+        top: { kind: 'vec3', required: true },
+        radius: POSITIVE,
+        material: MATERIAL,
+        transform: TRANSFORM
+    },
+    csg: {
+        type: { kind: 'string' },
+        operation: { kind: 'string', required: true, oneOf: ['union', 'intersection', 'difference'] },
+        children: {
+            kind: 'array',
+            required: true,
+            item: (obj, path, issues) => validateVariant(obj, path, OBJECT_SCHEMAS, null, issues)
+        },
+        material: OPTIONAL_MATERIAL,
+        transform: TRANSFORM
+    },
+    mesh: {
+        type: { kind: 'string' },
+        file: { kind: 'string', required: true },
+        position: { kind: 'vec3' },
+        scale: { kind: 'vec3OrNumber' },
+        rotation: { kind: 'vec3' },
+        smooth: { kind: 'boolean' },
+        material: OPTIONAL_MATERIAL,
+        transform: TRANSFORM,
+        velocity: { kind: 'vec3' }
+    },
+    instance: {
+        type: { kind: 'string' },
+        ref: { kind: 'string', required: true },
+        transform: TRANSFORM,
+        material: OPTIONAL_MATERIAL
+    }
+};
+
+const ENVIRONMENT_SCHEMAS: Record<string, Schema> = {
+    map: {
+        type: { kind: 'string' },
+        file: { kind: 'string', required: true },
+        intensity: { kind: 'number', default: 1, min: 0 },
+        rotation: { kind: 'number', default: 0 }
+    },
+    sky: {
+        type: { kind: 'string' },
+        zenithColor: { kind: 'color', default: { r: 0.2, g: 0.4, b: 0.8 } },
+        horizonColor: { kind: 'color', default: { r: 0.8, g: 0.85, b: 0.9 } },
+        groundColor: { kind: 'color', default: { r: 0.3, g: 0.28, b: 0.25 } },
+        sunDirection: { kind: 'vec3', nonZero: true },
+        sunColor: { kind: 'color', default: { r: 1, g: 0.95, b: 0.85 } },
+        sunIntensity: { kind: 'number', default: 20, min: 0 },
+        sunSize: { kind: 'number', default: 1, min: 0, max: 90, exclusiveMin: true },
+        intensity: { kind: 'number', default: 1, min: 0 }
+    }
+};
+
+const KEYFRAME_SCHEMA: Schema = {
+    frame: { kind: 'number', required: true },
+    value: { kind: 'animatable', required: true }
+};
+
+const TRACK_SCHEMA: Schema = {
+    target: { kind: 'string', required: true },
+    interpolation: { kind: 'string', default: 'linear', oneOf: ['linear', 'smooth'] },
+    keyframes: {
+        kind: 'array',
+        required: true,
+        item: (key, path, issues) => validateField(key, { kind: 'object', fields: KEYFRAME_SCHEMA }, path, issues)
+    }
+};
+
+const ANIMATION_SCHEMA: Schema = {
+    start: { kind: 'number', integer: true },
+    end: { kind: 'number', integer: true },
+    tracks: {
+        kind: 'array',
+        required: true,
+        item: (track, path, issues) => validateField(track, { kind: 'object', fields: TRACK_SCHEMA }, path, issues)
+    }
+};
+
+// Schemas of the items of arrays a track target can index into
+const ARRAY_ITEM_SCHEMAS: Record<string, { schemas: Record<string, Schema>; defaultType: string | null }> = {
+    lights: { schemas: LIGHT_SCHEMAS, defaultType: 'point' },
+    objects: { schemas: OBJECT_SCHEMAS, defaultType: null },
+    children: { schemas: OBJECT_SCHEMAS, defaultType: null }
+};
+
+const SCENE_SCHEMA: Schema = {
+    camera: { kind: 'object', required: true, fields: CAMERA_SCHEMA },
+    lights: {
+        kind: 'array',
+        default: [],
+        item: (light, path, issues) => validateVariant(light, path, LIGHT_SCHEMAS, 'point', issues)
+    },
+    objects: {
+        kind: 'array',
+        required: true,
+        item: (obj, path, issues) => validateVariant(obj, path, OBJECT_SCHEMAS, null, issues)
+    },
+    definitions: {
+        kind: 'record',
+        // A definition is a single object or a group (array) of objects
+        item: (definition, path, issues) => Array.isArray(definition)
+            ? definition.map((obj, index) => validateVariant(obj, `${path}[${index}]`, OBJECT_SCHEMAS, null, issues))
+            : [validateVariant(definition, path, OBJECT_SCHEMAS, null, issues)]
+    },
+    backgroundColor: { kind: 'color', default: { r: 0, g: 0, b: 0 } },
+    environment: { kind: 'variant', schemas: ENVIRONMENT_SCHEMAS },
+    ambient: { kind: 'color' },
+    animation: { kind: 'object', fields: ANIMATION_SCHEMA }
+};
+
+/**
+ * Checks parsed JSON against the Scene type, collecting every problem instead of
+ * stopping at the first one, and returns a copy with documented defaults filled in.
+ * Throws a SceneValidationError listing all issues.
+ */
+export function validateScene(data: unknown): Scene {
+    const issues: ValidationIssue[] = [];
+
+    if (!isRecord(data)) {
+        throw new SceneValidationError([{ path: '', message: 'Scene must be a JSON object' }]);
+    }
+
+    const scene = validateFields(data, SCENE_SCHEMA, '', issues);
+
+    const definitions = (scene.definitions ?? {}) as Record<string, (Record<string, unknown> | null)[]>;
+    const objects = (scene.objects ?? []) as (Record<string, unknown> | null)[];
+    objects.forEach((obj, index) => checkObject(obj, `objects[${index}]`, definitions, issues));
+
+    for (const [name, group] of Object.entries(definitions)) {
+        group.forEach((obj, index) => {
+            const path = group.length === 1 && !Array.isArray((data.definitions as Record<string, unknown>)[name])
+                ? `definitions.${name}` : `definitions.${name}[${index}]`;
+            checkObject(obj, path, definitions, issues);
+        });
+    }
+    checkInstanceCycles(definitions, issues);
+
+    if (isRecord(scene.camera)) checkCamera(scene.camera, issues);
+
+    const lights = (scene.lights ?? []) as (Record<string, unknown> | null)[];
+    lights.forEach((light, index) => {
+        const attenuation = light?.attenuation;
+        if (isRecord(attenuation) && !attenuation.constant && !attenuation.linear && !attenuation.quadratic) {
+            issues.push({ path: `lights[${index}].attenuation`, message: 'At least one of constant, linear and quadratic must be greater than 0' });
+        }
+    });
+
+    if (isRecord(scene.animation)) checkAnimation(scene, scene.animation, issues);
+
+    if (issues.length > 0) {
+        throw new SceneValidationError(issues);
+    }
+
+    return scene as unknown as Scene;
+}
+
+function validateVariant(
+    value: unknown,
+    path: string,
+    schemas: Record<string, Schema>,
+    defaultType: string | null,
+    issues: ValidationIssue[]
+): Record<string, unknown> | null {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+        return null;
+    }
+
+    const type = value.type ?? defaultType;
+    if (typeof type !== 'string' || !schemas[type]) {
+        const expected = Object.keys(schemas).map(name => `"${name}"`).join(', ');
+        issues.push({
+            path: `${path}.type`,
+            message: type === undefined || type === null
+                ? `Missing required type (one of ${expected})`
+                : `Unknown type ${JSON.stringify(type)} (expected one of ${expected})`
+        });
+        return null;
+    }
+
+    return validateFields(value, schemas[type], path, issues);
+}
+
+function validateFields(value: Record<string, unknown>, schema: Schema, path: string, issues: ValidationIssue[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value)) {
+        if (!(key in schema)) {
+            const suggestion = suggest(key, Object.keys(schema));
+            issues.push({
+                path: join(path, key),
+                message: `Unknown property${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`
+            });
+        }
+    }
+
+    for (const [key, spec] of Object.entries(schema)) {
+        const fieldPath = join(path, key);
+        const field = value[key];
+
+        if (field === undefined) {
+            if (spec.required) {
+                issues.push({ path: fieldPath, message: `Missing required ${spec.kind}` });
+            } else if ('default' in spec && spec.default !== undefined) {
+                result[key] = Array.isArray(spec.default) ? [...spec.default]
+                    : typeof spec.default === 'object' ? { ...spec.default } : spec.default;
+            }
+            continue;
+        }
+
+        const checked = validateField(field, spec, fieldPath, issues);
+        if (checked !== undefined) result[key] = checked;
+    }
+
+    return result;
+}
+
+function validateField(value: unknown, spec: FieldSpec, path: string, issues: ValidationIssue[]): unknown {
+    switch (spec.kind) {
+        case 'number': {
+            if (typeof value !== 'number' || !isFinite(value)) {
+                issues.push({ path, message: `Expected a number, got ${describe(value)}` });
+                return undefined;
+            }
+            if (spec.integer && !Number.isInteger(value)) {
+                issues.push({ path, message: `Expected an integer, got ${value}` });
+            }
+            if (spec.min !== undefined && (spec.exclusiveMin ? value <= spec.min : value < spec.min)) {
+                issues.push({ path, message: `Must be ${spec.exclusiveMin ? 'greater than' : 'at least'} ${spec.min}, got ${value}` });
+            }
+            if (spec.max !== undefined && value > spec.max) {
+                issues.push({ path, message: `Must be at most ${spec.max}, got ${value}` });
+            }
+            return value;
+        }
+        case 'string':
+            if (typeof value !== 'string') {
+                issues.push({ path, message: `Expected a string, got ${describe(value)}` });
+                return undefined;
+            }
+            if (spec.oneOf && !spec.oneOf.includes(value)) {
+                issues.push({ path, message: `Expected one of ${spec.oneOf.map(v => `"${v}"`).join(', ')}, got "${value}"` });
+            }
+            return value;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                issues.push({ path, message: `Expected true or false, got ${describe(value)}` });
+                return undefined;
+            }
+            return value;
+        case 'vec3': {
+            const vector = validateComponents(value, ['x', 'y', 'z'], path, issues);
+            if (vector && spec.nonZero && vector.x === 0 && vector.y === 0 && vector.z === 0) {
+                issues.push({ path, message: 'Vector must not be zero' });
+            }
+            return vector ?? undefined;
+        }
+        case 'color':
+            return validateComponents(value, ['r', 'g', 'b'], path, issues) ?? undefined;
+        case 'uv':
+            return validateComponents(value, ['u', 'v'], path, issues) ?? undefined;
+        case 'vec3OrNumber':
+            if (typeof value === 'number') {
+                return validateField(value, { kind: 'number' }, path, issues);
+            }
+            return validateField(value, { kind: 'vec3' }, path, issues);
+        case 'animatable':
+            if (typeof value === 'number') {
+                return validateField(value, { kind: 'number' }, path, issues);
+            }
+            if (isRecord(value) && 'x' in value) {
+                return validateField(value, { kind: 'vec3' }, path, issues);
+            }
+            if (isRecord(value) && 'r' in value) {
+                return validateField(value, { kind: 'color' }, path, issues);
+            }
+            issues.push({ path, message: `Expected a number, { x, y, z } or { r, g, b }, got ${describe(value)}` });
+            return undefined;
+        case 'stringOrObject':
+            if (typeof value === 'string') {
+                return validateField(value, { kind: 'string', oneOf: spec.oneOf }, path, issues);
+            }
+            if (!isRecord(value)) {
+                issues.push({ path, message: `Expected one of ${spec.oneOf.map(v => `"${v}"`).join(', ')} or an object, got ${describe(value)}` });
+                return undefined;
+            }
+            return validateFields(value, spec.fields, path, issues);
+        case 'matrix': {
+            if (!Array.isArray(value) || value.length !== 16) {
+                issues.push({ path, message: `Expected an array of 16 numbers (4×4, row-major), got ${describe(value)}` });
+                return undefined;
+            }
+            const invalid = value.findIndex(item => typeof item !== 'number' || !isFinite(item));
+            if (invalid >= 0) {
+                issues.push({ path: `${path}[${invalid}]`, message: `Expected a number, got ${describe(value[invalid])}` });
+                return undefined;
+            }
+            if (value[12] !== 0 || value[13] !== 0 || value[14] !== 0 || value[15] !== 1) {
+                issues.push({ path, message: 'Last row must be 0, 0, 0, 1 (affine transform)' });
+            }
+            return [...value];
+        }
+        case 'record':
+            if (!isRecord(value)) {
+                issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+                return undefined;
+            }
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, spec.item(item, join(path, key), issues)]));
+        case 'array':
+            if (!Array.isArray(value)) {
+                issues.push({ path, message: `Expected an array, got ${describe(value)}` });
+                return undefined;
+            }
+            return value.map((item, index) => spec.item(item, `${path}[${index}]`, issues));
+        case 'object':
+            if (!isRecord(value)) {
+                issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+                return undefined;
+            }
+            return validateFields(value, spec.fields, path, issues);
+        case 'variant':
+            return validateVariant(value, path, spec.schemas, spec.defaultType ?? null, issues) ?? undefined;
+    }
+}
+
+function validateComponents(value: unknown, keys: string[], path: string, issues: ValidationIssue[]): Record<string, number> | null {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `Expected { ${keys.join(', ')} }, got ${describe(value)}` });
+        return null;
+    }
+
+    const schema: Schema = {};
+    for (const key of keys) schema[key] = { kind: 'number', required: true };
+    return validateFields(value, schema, path, issues) as Record<string, number>;
+}
+
+function checkObject(
+    obj: Record<string, unknown> | null,
+    path: string,
+    definitions: Record<string, unknown>,
+    issues: ValidationIssue[]
+): void {
+    if (!obj) return;
+
+    if (obj.type === 'box') checkBoxExtent(obj, path, issues);
+    if (obj.type === 'cylinder' || obj.type === 'cone' || obj.type === 'capsule') checkAxis(obj, path, issues);
+    if (obj.type === 'disk' && typeof obj.innerRadius === 'number' && typeof obj.radius === 'number' && obj.innerRadius >= obj.radius) {
+        issues.push({ path: `${path}.innerRadius`, message: `Must be less than radius (${obj.innerRadius} >= ${obj.radius})` });
+    }
+
+    if (obj.type === 'csg' && Array.isArray(obj.children)) {
+        const children = obj.children as (Record<string, unknown> | null)[];
+        if (children.length < 2) {
+            issues.push({ path: `${path}.children`, message: `Expected at least 2 children, got ${children.length}` });
+        }
+        children.forEach((child, index) => {
+            const childPath = `${path}.children[${index}]`;
+            if (child && !isClosedSolid(child)) {
+                issues.push({ path: childPath, message: `${describeSolid(child)} has no inside and cannot be used in CSG` });
+            }
+            checkObject(child, childPath, definitions, issues);
+        });
+    }
+
+    if (obj.type === 'instance' && typeof obj.ref === 'string' && !(obj.ref in definitions)) {
+        const suggestion = suggest(obj.ref, Object.keys(definitions));
+        issues.push({
+            path: `${path}.ref`,
+            message: `Unknown definition "${obj.ref}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`
+        });
+    }
+
+    const transform = obj.transform as Transform | undefined;
+    if (!transform) return;
+
+    if (transform.matrix && (transform.translate || transform.rotate || transform.scale !== undefined)) {
+        issues.push({ path: `${path}.transform`, message: 'Use either matrix or translate/rotate/scale, not both' });
+    } else if (!transformToMatrix(transform).inverse()) {
+        issues.push({ path: `${path}.transform`, message: 'Transform is not invertible (zero scale?)' });
+    }
+}
+
+function checkInstanceCycles(definitions: Record<string, (Record<string, unknown> | null)[]>, issues: ValidationIssue[]): void {
+    const done = new Set<string>();
+
+    const visit = (name: string, chain: string[]): void => {
+        if (chain.includes(name)) {
+            const cycle = [...chain.slice(chain.indexOf(name)), name];
+            issues.push({ path: `definitions.${chain[chain.length - 1]}`, message: `Instance cycle: ${cycle.join(' -> ')}` });
+            return;
+        }
+        if (done.has(name) || !definitions[name]) return;
+
+        for (const obj of definitions[name]) {
+            if (obj?.type === 'instance' && typeof obj.ref === 'string') {
+                visit(obj.ref, [...chain, name]);
+            }
+        }
+        done.add(name);
+    };
+
+    for (const name of Object.keys(definitions)) {
+        visit(name, []);
+    }
+}
+
+function checkBoxExtent(box: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+    const min = box.min as Record<string, number> | undefined;
+    const max = box.max as Record<string, number> | undefined;
+    if (!min || !max) return;
+
+    for (const axis of ['x', 'y', 'z']) {
+        if (min[axis] > max[axis]) {
+            issues.push({ path: `${path}.min.${axis}`, message: `Must not exceed max.${axis} (${min[axis]} > ${max[axis]})` });
+        }
+    }
+}
+
+function isClosedSolid(obj: Record<string, unknown>): boolean {
+    switch (obj.type) {
+        case 'sphere':
+        case 'plane':   // the half-space behind the normal
+        case 'box':
+        case 'torus':
+        case 'capsule':
+        case 'csg':
+            return true;
+        case 'cylinder':
+        case 'cone':
+            return obj.capped !== false;
+        default:
+            return false;
+    }
+}
+
+function describeSolid(obj: Record<string, unknown>): string {
+    return obj.type === 'cylinder' || obj.type === 'cone' ? `An uncapped ${obj.type}` : `A "${obj.type}"`;
+}
+
+function checkAxis(obj: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+    const base = obj.base as Record<string, number> | undefined;
+    const top = obj.top as Record<string, number> | undefined;
+    if (base && top && base.x === top.x && base.y === top.y && base.z === top.z) {
+        issues.push({ path: `${path}.top`, message: 'Must differ from base' });
+    }
+}
+
+function checkCamera(camera: Record<string, unknown>, issues: ValidationIssue[]): void {
+    if (typeof camera.shutterClose === 'number' && typeof camera.shutterOpen === 'number' && camera.shutterClose < camera.shutterOpen) {
+        issues.push({ path: 'camera.shutterClose', message: `Must not be before shutterOpen (${camera.shutterClose} < ${camera.shutterOpen})` });
+    }
+
+    const position = camera.position as Record<string, number> | undefined;
+    const target = camera.target as Record<string, number> | undefined;
+    const focusPoint = camera.focusPoint as Record<string, number> | undefined;
+    if (!position || !target || !focusPoint) return;
+
+    const [dx, dy, dz] = [target.x - position.x, target.y - position.y, target.z - position.z];
+    if (dx * (focusPoint.x - position.x) + dy * (focusPoint.y - position.y) + dz * (focusPoint.z - position.z) <= 0) {
+        issues.push({ path: 'camera.focusPoint', message: 'Must lie in front of the camera' });
+    }
+}
+
+function checkAnimation(scene: Record<string, unknown>, animation: Record<string, unknown>, issues: ValidationIssue[]): void {
+    const tracks = (animation.tracks ?? []) as (Record<string, unknown> | null)[];
+
+    tracks.forEach((track, index) => {
+        const path = `animation.tracks[${index}]`;
+        if (!track || typeof track.target !== 'string') return;
+
+        const target = resolveTarget(scene, track.target);
+        if (typeof target === 'string') {
+            issues.push({ path: `${path}.target`, message: target });
+            return;
+        }
+
+        const keyframes = (track.keyframes ?? []) as (Record<string, unknown> | null)[];
+        if (keyframes.length === 0) {
+            issues.push({ path: `${path}.keyframes`, message: 'Expected at least one keyframe' });
+        }
+
+        const accepted = target.kind === 'vec3OrNumber' ? ['number', 'vec3'] : [target.kind];
+        keyframes.forEach((key, k) => {
+            if (!key || key.value === undefined) return;
+            const kind = valueKind(key.value);
+            if (!accepted.includes(kind)) {
+                issues.push({ path: `${path}.keyframes[${k}].value`, message: `Expected a ${accepted.join(' or ')} for ${track.target}, got a ${kind}` });
+            } else if (k > 0 && keyframes[0]?.value !== undefined && kind !== valueKind(keyframes[0].value)) {
+                issues.push({ path: `${path}.keyframes[${k}].value`, message: 'All keyframes of a track must have the same kind of value' });
+            }
+
+            const previous = keyframes[k - 1]?.frame;
+            if (typeof previous === 'number' && typeof key.frame === 'number' && key.frame <= previous) {
+                issues.push({ path: `${path}.keyframes[${k}].frame`, message: `Must be greater than the previous keyframe (${key.frame} <= ${previous})` });
+            }
+        });
+
+        if (target.transform?.matrix && /\.transform\.(translate|rotate|scale)$/.test(track.target)) {
+            issues.push({ path: `${path}.target`, message: 'The transform uses a matrix; animate translate/rotate/scale only without one' });
+        }
+    });
+
+    const { start, end } = animation;
+    if (typeof start === 'number' && typeof end === 'number' && end < start) {
+        issues.push({ path: 'animation.end', message: `Must not be before start (${end} < ${start})` });
+    }
+}
+
+/**
+ * Follows a track target through the scene and the schemas, returning the kind
+ * of the animated property (and the transform it sits in, if any), or an error
+ * message. Missing optional properties may be animated; arrays and materials
+ * have to exist.
+ */
+function resolveTarget(scene: Record<string, unknown>, target: string): { kind: string; transform?: Transform } | string {
+    const segments = parseTargetPath(target);
+    if (!segments) return `Invalid target "${target}" (expected a path such as "objects[0].transform.rotate")`;
+
+    let schema = SCENE_SCHEMA;
+    let value: unknown = scene;
+    let transform: Transform | undefined;
+
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const where = i === 0 ? 'the scene' : `"${segments.slice(0, i).join('.').replace(/\.(\d+)/g, '[$1]')}"`;
+        if (typeof segment !== 'string') return `Unexpected index [${segment}] in ${where}`;
+
+        const spec = schema[segment];
+        if (!spec) {
+            const suggestion = suggest(segment, Object.keys(schema));
+            return `Unknown property "${segment}" in ${where}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`;
+        }
+        const field = isRecord(value) ? value[segment] : undefined;
+
+        if (i === segments.length - 1) {
+            if (['number', 'vec3', 'color', 'vec3OrNumber'].includes(spec.kind)) return { kind: spec.kind, transform };
+            return `Cannot animate "${segment}" (only numbers, vectors and colors)`;
+        }
+
+        const items = ARRAY_ITEM_SCHEMAS[segment];
+        if (spec.kind === 'array' && items) {
+            const index = segments[++i];
+            if (typeof index !== 'number') return `Expected an index after "${segment}"`;
+            const item = Array.isArray(field) ? field[index] : undefined;
+            if (!isRecord(item)) return `${segment}[${index}] does not exist`;
+            const type = item.type ?? items.defaultType;
+            if (typeof type !== 'string' || !items.schemas[type]) return `${segment}[${index}] has no valid type`;
+            schema = items.schemas[type];
+            value = item;
+        } else if (spec.kind === 'object' && segment !== 'animation') {
+            schema = spec.fields;
+            value = field;
+            if (segment === 'transform') transform = field as Transform | undefined;
+        } else if (spec.kind === 'variant') {
+            if (!isRecord(field)) return `"${segment}" must be set to be animated`;
+            const type = field.type ?? spec.defaultType;
+            if (typeof type !== 'string' || !spec.schemas[type]) return `"${segment}" has no valid type`;
+            schema = spec.schemas[type];
+            value = field;
+        } else {
+            return `Cannot animate inside "${segment}"`;
+        }
+    }
+
+    return `Invalid target "${target}"`;
+}
+
+function valueKind(value: unknown): string {
+    return typeof value === 'number' ? 'number' : isRecord(value) && 'x' in value ? 'vec3' : 'color';
+}
+
+function suggest(key: string, candidates: string[]): string | null {
+    // Closest known property within an edit distance of 2, to catch typos like "raduis"
+    let best: string | null = null;
+    let bestDistance = 3;
+    for (const candidate of candidates) {
+        const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+function editDistance(a: string, b: string): number {
+    // Optimal string alignment distance, counting adjacent transpositions as one edit
+    const d: number[][] = [];
+    for (let i = 0; i <= a.length; i++) d.push([i]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `"${value}"`;
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+}
@@ -10,10 +10,84 @@ export interface Color {
     b: number;
 }
 
-export interface Material {
+export interface UV {
+    u: number;
+    v: number;
+}
+
+export interface CheckerTexture {
+    type: "checker";
+    color1: Color;
+    color2: Color;
+    scale?: number;         // squares per UV unit
+}
+
+export interface GradientTexture {
+    type: "gradient";
+    color1: Color;          // at 0
+    color2: Color;          // at 1
+    direction?: "u" | "v";
+}
+
+export interface NoiseTexture {
+    type: "noise";          // Perlin noise, blends color1 and color2
+    color1: Color;
+    color2: Color;
+    scale?: number;
+    octaves?: number;
+}
+
+export interface TextureImage {
+    width: number;
+    height: number;
+    data: Uint8Array;       // RGBA, rows from top to bottom
+}
+
+export interface ImageTexture {
+    type: "image";
+    file: string;           // PNG path, relative to the scene file
+    scale?: number;         // repetitions per UV unit
+    image?: TextureImage;   // filled in when the scene is loaded
+}
+
+export type Texture = CheckerTexture | GradientTexture | NoiseTexture | ImageTexture;
+
+export interface PhongMaterial {
+    type?: "phong";         // default when omitted
     color: Color;
     reflectivity: number;
     shininess: number;
+    transparency?: number;
+    ior?: number;
+    emission?: Color;
+    texture?: Texture;      // replaces color where set
+}
+
+/**
+ * Metallic/roughness material, shaded with a GGX microfacet BRDF.
+ */
+export interface PBRMaterial {
+    type: "pbr";
+    baseColor: Color;       // albedo for dielectrics, specular color for metals
+    metallic: number;       // 0 = dielectric, 1 = metal
+    roughness: number;      // 0 = mirror, 1 = fully rough
+    transparency?: number;
+    ior?: number;
+    emission?: Color;
+    texture?: Texture;      // replaces baseColor where set
+}
+
+export type Material = PhongMaterial | PBRMaterial;
+
+/**
+ * Object-to-world transform: scale, then rotate, then translate. A `matrix`
+ * (4×4, row-major, column vectors) replaces the three components.
+ */
+export interface Transform {
+    translate?: Vec3;
+    rotate?: Vec3;          // Euler angles in degrees, applied X, Y, Z
+    scale?: Vec3 | number;
+    matrix?: number[];
 }
 
 export interface Sphere {
@@ -21,6 +95,8 @@ export interface Sphere {
     center: Vec3;
     radius: number;
     material: Material;
+    transform?: Transform;
+    velocity?: Vec3;        // motion in scene units per frame, blurred over the camera shutter
 }
 
 export interface Plane {
@@ -28,6 +104,7 @@ export interface Plane {
     point: Vec3;
     normal: Vec3;
     material: Material;
+    transform?: Transform;
 }
 
 export interface Triangle {
@@ -35,7 +112,15 @@ export interface Triangle {
     v0: Vec3;
     v1: Vec3;
     v2: Vec3;
+    n0?: Vec3;  // optional per-vertex normals for smooth shading
+    n1?: Vec3;
+    n2?: Vec3;
+    uv0?: UV;   // optional per-vertex texture coordinates
+    uv1?: UV;
+    uv2?: UV;
     material: Material;
+    transform?: Transform;
+    velocity?: Vec3;
 }
 
 export interface Box {
@@ -43,32 +128,264 @@ export interface Box {
     min: Vec3;
     max: Vec3;
     material: Material;
+    transform?: Transform;
+    velocity?: Vec3;
+}
+
+export interface Cylinder {
+    type: "cylinder";
+    base: Vec3;             // center of the bottom cap
+    top: Vec3;              // center of the top cap
+    radius: number;
+    capped?: boolean;       // default true; false leaves an open tube
+    material: Material;
+    transform?: Transform;
+}
+
+export interface Cone {
+    type: "cone";
+    base: Vec3;
+    top: Vec3;
+    radius: number;         // radius at the base
+    topRadius?: number;     // default 0 (pointed); > 0 gives a truncated cone
+    capped?: boolean;       // default true
+    material: Material;
+    transform?: Transform;
+}
+
+export interface Disk {
+    type: "disk";
+    center: Vec3;
+    normal: Vec3;
+    radius: number;
+    innerRadius?: number;   // > 0 cuts a hole (annulus)
+    material: Material;
+    transform?: Transform;
+}
+
+export interface Torus {
+    type: "torus";
+    center: Vec3;
+    axis?: Vec3;            // axis of symmetry, default +Y
+    majorRadius: number;    // center to the middle of the tube
+    minorRadius: number;    // radius of the tube
+    material: Material;
+    transform?: Transform;
+}
+
+export interface Capsule {
+    type: "capsule";
+    base: Vec3;             // centers of the two hemispheres
+    top: Vec3;
+    radius: number;
+    material: Material;
+    transform?: Transform;
+}
+
+export type CSGOperation = "union" | "intersection" | "difference";
+
+/**
+ * Boolean combination of closed solids. `difference` subtracts every further
+ * child from the first one.
+ */
+export interface CSG {
+    type: "csg";
+    operation: CSGOperation;
+    children: SceneObject[];
+    material?: Material;    // replaces the materials of the children
+    transform?: Transform;
+}
+
+export interface Mesh {
+    type: "mesh";
+    file: string;           // OBJ path, relative to the scene file
+    position?: Vec3;
+    scale?: Vec3 | number;
+    rotation?: Vec3;        // Euler angles in degrees, applied X, Y, Z
+    smooth?: boolean;       // compute vertex normals if the OBJ has none
+    material?: Material;    // used for faces without an MTL material
+    transform?: Transform;  // applied after position, scale and rotation
+    velocity?: Vec3;        // passed on to every triangle
+}
+
+export interface Instance {
+    type: "instance";
+    ref: string;            // name in Scene.definitions
+    transform?: Transform;
+    material?: Material;    // replaces the materials of the referenced objects
+}
+
+export type SceneObject = Sphere | Plane | Triangle | Box | Cylinder | Cone | Disk | Torus | Capsule | CSG | Mesh | Instance;
+
+/**
+ * How light fades with distance d: "none" (constant), "linear" (1/d),
+ * "inverseSquare" (1/d²) or 1 / (constant + linear·d + quadratic·d²).
+ */
+export type Attenuation = "none" | "linear" | "inverseSquare" | AttenuationCoefficients;
+
+export interface AttenuationCoefficients {
+    constant?: number;
+    linear?: number;
+    quadratic?: number;
+}
+
+export interface PointLight {
+    type?: "point";         // default when omitted
+    position: Vec3;
+    color: Color;
+    intensity: number;
+    attenuation?: Attenuation;
 }
 
-export type SceneObject = Sphere | Plane | Triangle | Box;
+export interface RectLight {
+    type: "rect";
+    position: Vec3;         // center of the rectangle
+    u: Vec3;                // edge vectors spanning the rectangle
+    v: Vec3;
+    color: Color;
+    intensity: number;
+    samples?: number;       // shadow rays per shading point
+    attenuation?: Attenuation;
+}
+
+export interface DiskLight {
+    type: "disk";
+    position: Vec3;
+    normal: Vec3;
+    radius: number;
+    color: Color;
+    intensity: number;
+    samples?: number;
+    attenuation?: Attenuation;
+}
 
-export interface Light {
+export interface SphereLight {
+    type: "sphere";
     position: Vec3;
+    radius: number;
     color: Color;
     intensity: number;
+    samples?: number;
+    attenuation?: Attenuation;
+}
+
+/**
+ * Infinitely distant light (sun): parallel rays, no attenuation.
+ */
+export interface DirectionalLight {
+    type: "directional";
+    direction: Vec3;        // direction the light travels in
+    color: Color;
+    intensity: number;
+}
+
+export interface SpotLight {
+    type: "spot";
+    position: Vec3;
+    direction: Vec3;        // axis of the cone
+    angle: number;          // degrees between the axis and the edge of the cone
+    falloff?: number;       // share of the cone (0-1) over which the light fades out towards the edge
+    color: Color;
+    intensity: number;
+    attenuation?: Attenuation;
+}
+
+export type Light = PointLight | RectLight | DiskLight | SphereLight | DirectionalLight | SpotLight;
+
+export interface EnvironmentImage {
+    width: number;
+    height: number;
+    data: Float32Array;     // linear RGB, rows from top to bottom
+}
+
+/**
+ * Equirectangular image around the scene: u follows the azimuth (the image
+ * center lies along -z), v runs from straight up (top row) to straight down.
+ */
+export interface EnvironmentMap {
+    type: "map";
+    file: string;           // .hdr (Radiance RGBE) or .png, relative to the scene file
+    intensity?: number;
+    rotation?: number;      // degrees around the y axis
+    image?: EnvironmentImage;   // filled in when the scene is loaded
 }
 
+/**
+ * Procedural sky: a gradient from the horizon to the zenith above a uniform
+ * ground, optionally with a sun disk.
+ */
+export interface Sky {
+    type: "sky";
+    zenithColor?: Color;
+    horizonColor?: Color;
+    groundColor?: Color;
+    sunDirection?: Vec3;    // towards the sun; no sun when omitted
+    sunColor?: Color;
+    sunIntensity?: number;
+    sunSize?: number;       // angular radius in degrees
+    intensity?: number;
+}
+
+export type Environment = EnvironmentMap | Sky;
+
+export type Projection = "perspective" | "orthographic" | "fisheye" | "equirectangular";
+
 export interface Camera {
     position: Vec3;
     target: Vec3;
-    fov: number;
+    fov: number;            // vertical field of view; for fisheye the angle across the image circle
+    up?: Vec3;              // world direction shown as up in the image
+    projection?: Projection;
+    orthoHeight?: number;   // visible height in scene units for orthographic cameras
+    aperture?: number;      // lens diameter; 0 = pinhole, everything sharp (perspective and orthographic)
+    focusDistance?: number; // distance of the sharp plane along the view direction
+    focusPoint?: Vec3;      // focused on when focusDistance is omitted (default: target)
+    shutterOpen?: number;   // motion blur interval in frames, relative to the rendered frame
+    shutterClose?: number;
+}
+
+export type Interpolation = "linear" | "smooth";
+
+export type AnimatedValue = number | Vec3 | Color;
+
+export interface Keyframe {
+    frame: number;          // may be fractional
+    value: AnimatedValue;   // same kind as the animated property
+}
+
+/**
+ * Animates one property, addressed like a validation path, e.g.
+ * "camera.position", "lights[0].intensity" or "objects[2].transform.rotate".
+ * Before the first and after the last keyframe the value holds.
+ */
+export interface AnimationTrack {
+    target: string;
+    interpolation?: Interpolation;  // smooth: cubic spline with automatic tangents, flat at the ends and turning points
+    keyframes: Keyframe[];          // in ascending frame order
+}
+
+export interface Animation {
+    start?: number;         // first frame (default: first keyframe)
+    end?: number;           // last frame (default: last keyframe)
+    tracks: AnimationTrack[];
 }
 
 export interface Scene {
     camera: Camera;
     lights: Light[];
     objects: SceneObject[];
-    backgroundColor: Color;
+    definitions?: Record<string, SceneObject[]>;    // named objects or groups for instances
+    backgroundColor: Color;         // seen by rays that miss, unless an environment is set
+    environment?: Environment;
+    ambient?: Color;                // light reaching every surface regardless of the lights
+    animation?: Animation;
+    objectIndices?: number[];       // position in the scene file of each object, set when meshes were expanded
 }
 
 export interface Ray {
     origin: Vec3;
     direction: Vec3;
+    time?: number;          // moment within the shutter interval, in frames
 }
 
 export interface HitInfo {
@@ -77,4 +394,44 @@ export interface HitInfo {
     point: Vec3;
     normal: Vec3;
     material: Material;
+    uv?: UV;    // texture coordinates, set for textured materials
+    objectIndex?: number;   // position of the hit object in the scene file's object list
+}
+
+export type RenderMode = "whitted" | "pathtrace";
+
+// The shaded image, or an auxiliary pass (AOV) for compositing
+export type RenderPass = "beauty" | "depth" | "normal" | "albedo" | "objectId" | "shadow" | "reflection";
+
+// 8-bit PNG of the canvas, tone-mapped 16-bit PNG, or the linear framebuffer as Radiance HDR or PFM
+export type ExportFormat = "png" | "png16" | "hdr" | "pfm";
+
+// An image sequence as one download per frame, or all frames in a ZIP archive
+export type SequenceFormat = "png" | "zip";
+
+export type SamplePattern = "grid" | "jittered" | "rotated";
+
+export type ReconstructionFilter = "box" | "tent" | "gaussian";
+
+export interface AntialiasingSettings {
+    samplesPerPixel: number;    // rounded up to the next square number
+    pattern: SamplePattern;
+    filter: ReconstructionFilter;
+    adaptive: boolean;          // only supersample pixels with high neighbor contrast
+    adaptiveThreshold: number;
+}
+
+export type ToneMappingOperator = "clamp" | "reinhard" | "aces";
+
+export interface ToneMappingSettings {
+    operator: ToneMappingOperator;
+    exposure: number;           // in stops: each +1 doubles the brightness
+    srgb: boolean;              // encode with the sRGB transfer curve instead of storing linear values
+}
+
+export interface Tile {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
 }
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import type { Scene, Tile } from '../types/scene.types';
+import { buildBVH, type BVH } from '../core/BVH';
+import { DEFAULT_ANTIALIASING } from '../core/antialiasing';
+import { createTiles } from '../core/tiles';
+import { Tracer } from '../core/Tracer';
+import { RenderCancelledError } from '../core/RenderCancelledError';
+import { readScene, resolveFrame } from '../cli/render';
+import { WorkerPool, type TileJob } from './WorkerPool';
+import type { WorkerMessage, WorkerResponse } from './raytracer.worker';
+
+const JOB: TileJob = {
+    width: 96,
+    height: 64,
+    maxDepth: 3,
+    mode: 'whitted',
+    pass: 'beauty',
+    antialiasing: DEFAULT_ANTIALIASING
+};
+
+/**
+ * Stands in for a browser worker running raytracer.worker.ts: messages are
+ * cloned, and every tile is answered asynchronously from the last scene the
+ * worker received.
+ */
+class FakeWorker {
+    onmessage: ((e: { data: WorkerResponse }) => void) | null = null;
+    onerror: ((error: unknown) => void) | null = null;
+    private scene: Scene | null = null;
+    private bvh: BVH | null = null;
+    private terminated = false;
+
+    postMessage(message: WorkerMessage): void {
+        const data = structuredClone(message);
+        if (data.type === 'scene') {
+            this.scene = data.scene;
+            this.bvh = data.bvh;
+            return;
+        }
+
+        setImmediate(() => {
+            if (this.terminated) return;
+            const tracer = new Tracer(this.scene!, this.bvh!, data);
+            const radiance = tracer.renderRegion(data.tile, data.antialiasing, data.pass);
+            this.onmessage?.({ data: { jobId: data.jobId, tile: data.tile, radiance } });
+        });
+    }
+
+    terminate(): void {
+        this.terminated = true;
+    }
+}
+
+function createPool(): WorkerPool {
+    return new WorkerPool(2, () => new FakeWorker() as unknown as Worker);
+}
+
+async function loadFrame(frame: number): Promise<{ scene: Scene; bvh: BVH }> {
+    const scenePath = path.resolve('public/scenes/turntable.json');
+    const scene = await resolveFrame(await readScene(scenePath), scenePath, frame);
+    return { scene, bvh: buildBVH(scene.objects, scene.definitions) };
+}
+
+function renderTile(frame: { scene: Scene; bvh: BVH }, tile: Tile): Float32Array {
+    return new Tracer(frame.scene, frame.bvh, JOB).renderRegion(tile, JOB.antialiasing, JOB.pass);
+}
+
+// Lets the fake workers answer whatever they still had underway
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+test('changing the frame during a tiled render cancels it instead of mixing both frames', async () => {
+    const first = await loadFrame(0);
+    const second = await loadFrame(12);
+    const tiles = createTiles(JOB.width, JOB.height);
+    const pool = createPool();
+    pool.setScene(first.scene, first.bvh);
+
+    const received: WorkerResponse[] = [];
+    const render = pool.run(tiles, JOB, (result) => {
+        received.push(result);
+        if (received.length === 1) pool.setScene(second.scene, second.bvh);
+    });
+
+    await assert.rejects(render, RenderCancelledError);
+    await settle();
+    assert.equal(received.length, 1);
+    assert.deepEqual(received[0].radiance, renderTile(first, received[0].tile));
+
+    // The next render only sees the new frame
+    const rendered: WorkerResponse[] = [];
+    await pool.run(tiles, JOB, (result) => rendered.push(result));
+    assert.equal(rendered.length, tiles.length);
+    for (const { tile, radiance } of rendered) {
+        assert.deepEqual(radiance, renderTile(second, tile));
+    }
+    pool.terminate();
+});
+
+test('a failing tile callback stops the job', async () => {
+    const frame = await loadFrame(0);
+    const pool = createPool();
+    pool.setScene(frame.scene, frame.bvh);
+
+    let calls = 0;
+    const render = pool.run(createTiles(JOB.width, JOB.height), JOB, () => {
+        calls++;
+        throw new Error('Canvas lost');
+    });
+
+    await assert.rejects(render, /Canvas lost/);
+    await settle();
+    assert.equal(calls, 1);
+    pool.terminate();
+});
@@ -0,0 +1,165 @@
+import type { Scene, Tile } from '../types/scene.types';
+import type { BVH } from '../core/BVH';
+import { RenderCancelledError } from '../core/RenderCancelledError';
+import type { SceneMessage, TileMessage, WorkerResponse } from './raytracer.worker';
+
+export type TileJob = Omit<TileMessage, 'type' | 'jobId' | 'tile'>;
+
+interface ActiveJob {
+    id: number;
+    cancel: () => void;
+}
+
+/**
+ * Persistent render workers that pull tiles from a shared queue. The scene is
+ * posted once per load, so repeated renders only send the tile settings.
+ * `createWorker` starts one worker running raytracer.worker.ts.
+ */
+export class WorkerPool {
+    private workers: Worker[] = [];
+    private size: number;
+    private createWorker: () => Worker;
+    private sceneMessage: SceneMessage | null = null;
+    private nextJobId: number = 0;
+    private activeJob: ActiveJob | null = null;
+
+    constructor(size: number, createWorker: () => Worker) {
+        this.size = Math.max(1, size);
+        this.createWorker = createWorker;
+    }
+
+    /**
+     * Changes the number of workers. Surplus workers may still be busy with a
+     * tile, so during a run they are only stopped once it settles.
+     */
+    resize(size: number): void {
+        this.size = Math.max(1, size);
+        if (!this.activeJob) this.shrink();
+    }
+
+    /**
+     * Replaces the scene the workers render. The rest of a running job would
+     * be traced against the new scene, so that job is cancelled instead.
+     */
+    setScene(scene: Scene, bvh: BVH): void {
+        this.sceneMessage = { type: 'scene', scene, bvh };
+        if (this.activeJob) {
+            this.activeJob.cancel();
+            return;
+        }
+
+        for (const worker of this.workers) {
+            worker.postMessage(this.sceneMessage);
+        }
+    }
+
+    /**
+     * Renders all tiles and calls `onTile` as each one finishes. A worker that
+     * finishes a tile immediately takes the next one from the queue. Aborting
+     * `signal` or changing the scene terminates the busy workers and rejects
+     * with RenderCancelledError.
+     */
+    run(tiles: Tile[], job: TileJob, onTile: (result: WorkerResponse) => void, signal?: AbortSignal): Promise<void> {
+        if (!this.sceneMessage) {
+            return Promise.reject(new Error('No scene loaded'));
+        }
+        if (signal?.aborted) {
+            return Promise.reject(new RenderCancelledError());
+        }
+
+        this.ensureWorkers();
+
+        const jobId = ++this.nextJobId;
+        const queue = tiles.slice();
+        let remaining = tiles.length;
+
+        return new Promise<void>((resolve, reject) => {
+            if (remaining === 0) {
+                resolve();
+                return;
+            }
+            let settled = false;
+
+            // Settles the job once; answers that are still underway are ignored after that
+            const finish = (error?: unknown) => {
+                if (settled) return;
+                settled = true;
+                queue.length = 0;
+                signal?.removeEventListener('abort', onAbort);
+                if (this.activeJob?.id === jobId) {
+                    this.activeJob = null;
+                    this.shrink();
+                }
+                if (error === undefined) resolve();
+                else reject(error);
+            };
+
+            const onAbort = () => {
+                // Fresh workers (with the current scene) are created by the next run
+                this.terminate();
+                finish(new RenderCancelledError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.activeJob = { id: jobId, cancel: onAbort };
+
+            const dispatch = (worker: Worker) => {
+                const tile = queue.shift();
+                if (!tile) return;
+                const message: TileMessage = { type: 'tile', jobId, tile, ...job };
+                worker.postMessage(message);
+            };
+
+            for (const worker of this.workers) {
+                worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+                    // Answers to an earlier or failed job are dropped
+                    if (settled || e.data.jobId !== jobId) return;
+
+                    try {
+                        onTile(e.data);
+                    } catch (error) {
+                        // The other workers are still busy with tiles nobody wants any more
+                        this.terminate();
+                        finish(error);
+                        return;
+                    }
+
+                    remaining--;
+                    if (remaining === 0) {
+                        finish();
+                    } else {
+                        dispatch(worker);
+                    }
+                };
+
+                worker.onerror = (error) => {
+                    // A crashed worker may leave the others mid-tile; start over with fresh ones
+                    this.terminate();
+                    finish(error);
+                };
+
+                dispatch(worker);
+            }
+        });
+    }
+
+    terminate(): void {
+        for (const worker of this.workers) {
+            worker.terminate();
+        }
+        this.workers = [];
+    }
+
+    private shrink(): void {
+        while (this.workers.length > this.size) {
+            this.workers.pop()!.terminate();
+        }
+    }
+
+    private ensureWorkers(): void {
+        while (this.workers.length < this.size) {
+            const worker = this.createWorker();
+            worker.postMessage(this.sceneMessage);
+            this.workers.push(worker);
+        }
+    }
+}